@@ -3,19 +3,71 @@ import * as path from "path";
 import * as fs from "fs";
 import {
   generateInterfaceCode,
-  updateClassToImplementInterface,
-  parseMethodFromLine,
-  parsePropertyFromLine,
+  getExtractableMembers,
+  generateMemberSignature,
+  ExtractableMember,
+  MemberFilterOptions,
+  DEFAULT_EXCLUDED_ATTRIBUTES,
+  getImplementInterfaceChange,
+  findTargetType,
+  isTypeHeaderAt,
+  findMethodAtOffset,
+  findPropertyAtOffset,
   findImplementedInterfaces,
-  addMethodToInterface,
-  addPropertyToInterface,
-  parseInterfaceMembers,
-  generateInterfaceStubs,
-  insertInterfaceStubs,
+  getAddMethodToInterfaceChange,
+  getAddPropertyToInterfaceChange,
+  getInterfaceMemberGroup,
+  removeDuplicateInterfaceMembers,
+  countInterfaceMembers,
+  getInsertStubGroupsChanges,
+  getClassMemberNames,
+  StubPlacement,
   filterUnimplementedMembers,
+  findConflictingMembers,
+  findDelegationTargets,
+  StubOptions,
+  StubBody,
+  usesSystemNamespace,
+  InterfaceMembers,
+  InterfaceMemberGroup,
+  TextChange,
+  MethodInfo,
+  PropertyInfo,
+  getInheritDocChange,
+  CodeFormat,
+  EditorConfigFile,
+  getEditorConfigProperties,
+  resolveCodeFormat,
+  GlobalUsings,
+  toGlobalUsings,
+  getProjectGlobalUsings,
+  mergeGlobalUsings,
+  getAddUsingChange,
+  TypeDeclaration,
+  SourceFile,
+  PartialDeclaration,
+  BaseClassDeclaration,
+  MemberSourceOptions,
+  TypeIndex,
+  IndexedType,
+  createTypeIndex,
+  indexFile,
+  removeIndexedFile,
+  getGlobalUsingDirectives,
+  getTypeNamespaces,
+  resolveTypeReference,
+  getPartialDeclarations,
+  getBaseClassChain,
+  getInheritedInterfaces,
+  getAbstractMembers,
+  getBaseClassName,
 } from "./logic";
 
 export function activate(context: vscode.ExtensionContext) {
+  // Index the workspace's types in the background for the commands to resolve names against
+  typeIndex = loadTypeIndex();
+  watchTypeIndex(context);
+
   // Register Extract Interface command
   const extractInterfaceCommand = vscode.commands.registerCommand(
     "csharp.extractInterface",
@@ -44,6 +96,20 @@ export function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(implementInterfaceCommand);
 
+  // Register Implement Abstract Members command
+  const implementAbstractMembersCommand = vscode.commands.registerCommand(
+    "csharp.implementAbstractMembers",
+    implementAbstractMembersHandler
+  );
+  context.subscriptions.push(implementAbstractMembersCommand);
+
+  // Register Implement All Missing Members command
+  const implementAllMembersCommand = vscode.commands.registerCommand(
+    "csharp.implementAllMembers",
+    implementAllMembersHandler
+  );
+  context.subscriptions.push(implementAllMembersCommand);
+
   // Register the CodeActionProvider for all C# refactoring actions
   context.subscriptions.push(
     vscode.languages.registerCodeActionsProvider(
@@ -62,18 +128,25 @@ export function activate(context: vscode.ExtensionContext) {
 class CSharpCodeActionProvider implements vscode.CodeActionProvider {
   static readonly providedCodeActionKinds = [vscode.CodeActionKind.Refactor];
 
-  public provideCodeActions(
+  public async provideCodeActions(
     document: vscode.TextDocument,
     range: vscode.Range,
     _context: vscode.CodeActionContext,
     _token: vscode.CancellationToken
-  ): vscode.CodeAction[] {
+  ): Promise<vscode.CodeAction[]> {
     const actions: vscode.CodeAction[] = [];
-    const lineText = document.lineAt(range.start.line).text;
     const fullText = document.getText();
+    const offset = document.offsetAt(range.start);
 
-    // Extract Interface - triggers on class declaration
-    if (/public\s+(?:partial\s+)?class\s+\w+/.test(lineText)) {
+    // The innermost class, struct or record under the cursor
+    const targetType = findTargetType(fullText, offset);
+    if (!targetType) {
+      return actions;
+    }
+    const onTypeHeader = isTypeHeaderAt(fullText, targetType, offset);
+
+    // Extract Interface - triggers on class, struct and record declarations
+    if (onTypeHeader) {
       const action = new vscode.CodeAction(
         "Extract Interface",
         vscode.CodeActionKind.RefactorExtract
@@ -81,51 +154,86 @@ class CSharpCodeActionProvider implements vscode.CodeActionProvider {
       action.command = {
         command: "csharp.extractInterface",
         title: "Extract Interface",
-        arguments: [],
+        arguments: [offset],
       };
       actions.push(action);
     }
 
+    const interfaces = await findWorkspaceInterfaces(document, offset);
+
     // Add Method to Interface - triggers on public method
-    const method = parseMethodFromLine(lineText, fullText);
-    if (method) {
-      const interfaces = findImplementedInterfaces(fullText);
-      if (interfaces.length > 0) {
-        const action = new vscode.CodeAction(
-          `Add '${method.name}' to Interface`,
-          vscode.CodeActionKind.RefactorExtract
-        );
+    const method = findMethodAtOffset(fullText, offset);
+    if (method && interfaces.length > 0) {
+      const action = new vscode.CodeAction(
+        `Add '${method.name}' to Interface`,
+        vscode.CodeActionKind.RefactorExtract
+      );
+      action.command = {
+        command: "csharp.addMethodToInterface",
+        title: "Add Method to Interface",
+        arguments: [method, interfaces],
+      };
+      actions.push(action);
+    }
+
+    // Add Property to Interface - triggers on public property
+    const property = findPropertyAtOffset(fullText, offset);
+    if (property && interfaces.length > 0) {
+      const action = new vscode.CodeAction(
+        `Add '${property.name}' to Interface`,
+        vscode.CodeActionKind.RefactorExtract
+      );
+      action.command = {
+        command: "csharp.addPropertyToInterface",
+        title: "Add Property to Interface",
+        arguments: [property, interfaces],
+      };
+      actions.push(action);
+    }
+
+    // Implement Interface - triggers on a type declaration with interfaces
+    if (onTypeHeader) {
+      const memberGroups = await Promise.all(
+        interfaces.map((interfaceName) => findInterfaceMemberGroups(document, interfaceName, offset))
+      );
+      const partials = await findWorkspacePartials(document, targetType);
+
+      // Implement Abstract Members - triggers on a type deriving from a class with abstract members
+      const baseClasses = await findWorkspaceBaseClasses(document, targetType, partials);
+      const abstractMembers = getAbstractMembers([targetType, ...partials.map((p) => p.type)], baseClasses);
+
+      // Implement All Missing Members - triggers when more than one interface or base class has members left
+      const missingSources = [
+        abstractMembers,
+        ...memberGroups.map((groups) =>
+          filterUnimplementedMembers(mergeInterfaceMembers(groups), fullText, offset, partials)
+        ),
+      ].filter((members) => countInterfaceMembers(members) > 0);
+      if (missingSources.length > 1) {
+        const action = new vscode.CodeAction("Implement all missing members", vscode.CodeActionKind.RefactorRewrite);
         action.command = {
-          command: "csharp.addMethodToInterface",
-          title: "Add Method to Interface",
-          arguments: [method, interfaces],
+          command: "csharp.implementAllMembers",
+          title: "Implement All Missing Members",
+          arguments: [offset],
         };
         actions.push(action);
       }
-    }
 
-    // Add Property to Interface - triggers on public property
-    const property = parsePropertyFromLine(lineText);
-    if (property) {
-      const interfaces = findImplementedInterfaces(fullText);
-      if (interfaces.length > 0) {
+      if (countInterfaceMembers(abstractMembers) > 0) {
+        const baseName = getBaseClassName(baseClasses[0]);
         const action = new vscode.CodeAction(
-          `Add '${property.name}' to Interface`,
-          vscode.CodeActionKind.RefactorExtract
+          `Implement abstract members of '${baseName}'`,
+          vscode.CodeActionKind.RefactorRewrite
         );
         action.command = {
-          command: "csharp.addPropertyToInterface",
-          title: "Add Property to Interface",
-          arguments: [property, interfaces],
+          command: "csharp.implementAbstractMembers",
+          title: "Implement Abstract Members",
+          arguments: [offset],
         };
         actions.push(action);
       }
-    }
 
-    // Implement Interface - triggers on class declaration with interface
-    const interfaces = findImplementedInterfaces(fullText);
-    if (interfaces.length > 0 && /class\s+\w+/.test(lineText)) {
-      for (const interfaceName of interfaces) {
+      interfaces.forEach((interfaceName, i) => {
         const action = new vscode.CodeAction(
           `Implement '${interfaceName}'`,
           vscode.CodeActionKind.RefactorRewrite
@@ -133,17 +241,48 @@ class CSharpCodeActionProvider implements vscode.CodeActionProvider {
         action.command = {
           command: "csharp.implementInterface",
           title: "Implement Interface",
-          arguments: [interfaceName],
+          arguments: [interfaceName, offset],
         };
         actions.push(action);
-      }
+
+        // Members clashing with another interface or a class member can only be implemented explicitly
+        const members = mergeInterfaceMembers(memberGroups[i]);
+        const otherInterfaces = memberGroups.filter((_, j) => j !== i).map(mergeInterfaceMembers);
+        const conflicts = findConflictingMembers(members, otherInterfaces, fullText, offset, partials);
+
+        const explicitAction = new vscode.CodeAction(
+          `Implement '${interfaceName}' explicitly`,
+          vscode.CodeActionKind.RefactorRewrite
+        );
+        explicitAction.command = {
+          command: "csharp.implementInterface",
+          title: "Implement Interface Explicitly",
+          arguments: [interfaceName, offset, true],
+        };
+        explicitAction.isPreferred = conflicts.length > 0;
+        actions.push(explicitAction);
+
+        // Decorators and adapters forward to a field or primary constructor parameter of the interface type
+        for (const target of findDelegationTargets(fullText, interfaceName, offset, partials)) {
+          const delegateAction = new vscode.CodeAction(
+            `Implement '${interfaceName}' through '${target}'`,
+            vscode.CodeActionKind.RefactorRewrite
+          );
+          delegateAction.command = {
+            command: "csharp.implementInterface",
+            title: "Implement Interface Through Member",
+            arguments: [interfaceName, offset, false, target],
+          };
+          actions.push(delegateAction);
+        }
+      });
     }
 
     return actions;
   }
 }
 
-async function extractInterface() {
+async function extractInterface(offset?: number) {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showErrorMessage("No active editor found!");
@@ -157,15 +296,34 @@ async function extractInterface() {
   }
 
   const text = document.getText();
+  const cursorOffset = offset ?? document.offsetAt(editor.selection.active);
+  const classType = findTargetType(text, cursorOffset);
+
+  // The type name comes from the declaration under the cursor, never from the file name
+  if (!classType) {
+    vscode.window.showErrorMessage(
+      "Could not find a class, struct or record declaration at the cursor. Place the cursor inside the type to extract from."
+    );
+    return;
+  }
+  const className = classType.name;
 
   // Get the current file path and directory
   const currentFilePath = document.uri.fsPath;
   const currentDirectory = path.dirname(currentFilePath); // Directory of the class file
-  const fileName = path.basename(currentFilePath, ".cs"); // File name without extension
 
   try {
-    const { interfaceNameFromPrompt, interfaceCode, namespace } =
-      await generateInterfaceWithNamespaceAndEditClass(text, fileName);
+    // Members may be spread over partial declarations in other files and over base classes
+    const partials = await findWorkspacePartials(document, classType);
+    const baseClasses = useInheritedMembers(document)
+      ? await findWorkspaceBaseClasses(document, classType, partials)
+      : [];
+    const { interfaceNameFromPrompt, interfaceReference, interfaceCode, namespace, members } =
+      await generateInterfaceWithNamespaceAndEditClass(document, className, cursorOffset, {
+        filter: getMemberFilter(document),
+        partials,
+        baseClasses,
+      });
 
     if (!interfaceNameFromPrompt) {
       // User cancelled the input
@@ -173,21 +331,13 @@ async function extractInterface() {
     }
 
     const actualInterfaceName = path.basename(interfaceNameFromPrompt);
-    const relativeInterfacePath = path.dirname(interfaceNameFromPrompt);
-
-    const baseDirectory = path.dirname(document.uri.fsPath);
-    const targetDirectory = path.resolve(baseDirectory, relativeInterfacePath);
+    const interfacePath = getInterfacePath(document, interfaceNameFromPrompt);
+    const targetDirectory = path.dirname(interfacePath);
 
     // Create target directory if it doesn't exist
     // vscode.workspace.fs.createDirectory handles recursive creation.
     await vscode.workspace.fs.createDirectory(vscode.Uri.file(targetDirectory));
 
-    // Construct the new interface file path
-    const interfacePath = path.join(
-      targetDirectory,
-      `${actualInterfaceName}.cs`
-    );
-
     // Check if the file already exists
     if (fs.existsSync(interfacePath)) {
       vscode.window.showWarningMessage(
@@ -196,33 +346,41 @@ async function extractInterface() {
       return;
     }
 
-    // Create the new file and write the interface code
+    // Create the new file and write the interface code, with a BOM when the project uses one
     const interfaceUri = vscode.Uri.file(interfacePath);
-    const workspaceEdit = new vscode.WorkspaceEdit();
-    workspaceEdit.createFile(interfaceUri, { ignoreIfExists: true });
-    workspaceEdit.insert(
-      interfaceUri,
-      new vscode.Position(0, 0),
-      interfaceCode
-    );
+    const bom = shouldWriteBom(interfacePath, currentFilePath) ? "\uFEFF" : "";
+    await vscode.workspace.fs.writeFile(interfaceUri, Buffer.from(bom + interfaceCode, "utf8"));
 
-    await vscode.workspace.applyEdit(workspaceEdit);
-
-    // Modify the current file to implement the interface
-    const updatedClassText = updateClassToImplementInterface(
+    // Modify the class declaration to implement the interface
+    const classChange = getImplementInterfaceChange(
       text,
-      fileName, // class name remains the same
-      actualInterfaceName // use the actual name for the interface
-    );
-
-    const fullRange = new vscode.Range(
-      new vscode.Position(0, 0),
-      new vscode.Position(document.lineCount, 0)
+      className,
+      interfaceReference, // the actual name, with type arguments for generic classes
+      partials,
+      cursorOffset
     );
 
-    const edit = new vscode.WorkspaceEdit();
-    edit.replace(document.uri, fullRange, updatedClassText);
-    await vscode.workspace.applyEdit(edit);
+    // Documentation now lives on the interface, in whichever file declares each member
+    const docChanges = new Map<string, TextChange[]>();
+    if (useInheritDoc(document)) {
+      // Inherited members keep their documentation on the base class
+      for (const member of members.filter((m) => !m.inheritedFrom)) {
+        const change = getInheritDocChange(member.info);
+        const file = member.file ?? currentFilePath;
+        if (change) {
+          docChanges.set(file, [...(docChanges.get(file) ?? []), change]);
+        }
+      }
+    }
+    const classChanges = [...(classChange ? [classChange] : []), ...(docChanges.get(currentFilePath) ?? [])];
+    if (classChanges.length > 0) {
+      await applyDocumentChanges(document, classChanges);
+    }
+    for (const [file, changes] of docChanges) {
+      if (file !== currentFilePath) {
+        await applyDocumentChanges(await vscode.workspace.openTextDocument(file), changes);
+      }
+    }
 
     // Show the interface file
     await vscode.window.showTextDocument(interfaceUri);
@@ -238,15 +396,18 @@ async function extractInterface() {
 }
 
 async function generateInterfaceWithNamespaceAndEditClass(
-  classText: string,
-  currentFileName: string
+  document: vscode.TextDocument,
+  className: string,
+  offset: number,
+  sources: MemberSourceOptions
 ): Promise<{
   interfaceNameFromPrompt: string | undefined; // Can be undefined if user cancels
+  interfaceReference: string;
   interfaceCode: string;
   namespace: string | null;
+  members: ExtractableMember[];
 }> {
-  // Extract the class name and default interface name
-  const className = currentFileName.replace(".cs", "");
+  // Default interface name from the declared class name
   const defaultInterfaceName = `I${className}`;
 
   // Prompt for interface name
@@ -260,31 +421,73 @@ async function generateInterfaceWithNamespaceAndEditClass(
     // Return undefined for interfaceNameFromPrompt if user cancels
     return {
       interfaceNameFromPrompt: undefined,
+      interfaceReference: "",
       interfaceCode: "",
       namespace: null,
+      members: [],
     };
   }
 
+  const classText = document.getText();
+
+  // Let the user choose which members go on the interface (all checked by default)
+  const extractableMembers = getExtractableMembers(classText, className, offset, sources);
+  let members: ExtractableMember[] = [];
+  if (extractableMembers.length > 0) {
+    const picked = await vscode.window.showQuickPick(
+      extractableMembers.map((member) => ({
+        label: generateMemberSignature(member),
+        // Inherited members are offered but left unchecked
+        description: member.inheritedFrom ? `${member.kind} from ${member.inheritedFrom}` : member.kind,
+        picked: !member.inheritedFrom,
+        member,
+      })),
+      {
+        canPickMany: true,
+        placeHolder: `Select the members to include in ${path.basename(interfaceNameFromPrompt)}`,
+      }
+    );
+
+    if (!picked) {
+      return {
+        interfaceNameFromPrompt: undefined,
+        interfaceReference: "",
+        interfaceCode: "",
+        namespace: null,
+        members: [],
+      };
+    }
+    members = picked.map((item) => item.member);
+  }
+
+  const index = await getTypeIndex();
   const result = generateInterfaceCode(
     classText,
     interfaceNameFromPrompt,
-    currentFileName
+    className,
+    {
+      offset,
+      members,
+      format: getCodeFormat(getInterfacePath(document, interfaceNameFromPrompt), document),
+      globalUsings: getProjectUsings(index, document.uri.fsPath),
+      resolveType: (name) => getTypeNamespaces(index, name),
+      ...sources,
+    }
   );
 
   return {
     interfaceNameFromPrompt,
+    interfaceReference: result.interfaceReference,
     interfaceCode: result.interfaceCode,
     namespace: result.namespace,
+    members,
   };
 }
 
 /**
  * Handler for adding a method to an interface
  */
-async function addMethodToInterfaceHandler(
-  method: { returnType: string; name: string; genericParams: string | null; parameters: string },
-  interfaces: string[]
-) {
+async function addMethodToInterfaceHandler(method: MethodInfo, interfaces: string[]) {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showErrorMessage("No active editor found!");
@@ -292,7 +495,6 @@ async function addMethodToInterfaceHandler(
   }
 
   const document = editor.document;
-  const currentDirectory = path.dirname(document.uri.fsPath);
 
   // If multiple interfaces, let user choose
   let targetInterface: string | undefined;
@@ -308,47 +510,27 @@ async function addMethodToInterfaceHandler(
     return; // User cancelled
   }
 
-  // Find the interface file
-  const interfaceFileName = `${targetInterface}.cs`;
-  const interfaceFiles = await vscode.workspace.findFiles(
-    `**/${interfaceFileName}`,
-    "**/node_modules/**"
-  );
-
-  if (interfaceFiles.length === 0) {
-    vscode.window.showErrorMessage(
-      `Could not find interface file '${interfaceFileName}' in workspace.`
-    );
+  // Look the interface up by the name the class uses for it
+  const interfaceDeclarations = await findInterfaceDeclarations(document, targetInterface, method.start);
+  if (interfaceDeclarations.length === 0) {
+    vscode.window.showErrorMessage(`Could not find interface '${targetInterface}' in the workspace.`);
     return;
   }
 
-  // Use the first match, or let user choose if multiple
-  let interfaceUri: vscode.Uri;
-  if (interfaceFiles.length === 1) {
-    interfaceUri = interfaceFiles[0];
-  } else {
-    const selected = await vscode.window.showQuickPick(
-      interfaceFiles.map((f) => ({
-        label: path.basename(f.fsPath),
-        description: path.dirname(f.fsPath),
-        uri: f,
-      })),
-      { placeHolder: "Multiple interface files found. Select one:" }
-    );
-    if (!selected) {
-      return;
-    }
-    interfaceUri = selected.uri;
-  }
-
   // Read the interface file
+  const interfaceUri = vscode.Uri.file(interfaceDeclarations[0].file.path);
   const interfaceDocument = await vscode.workspace.openTextDocument(interfaceUri);
   const interfaceCode = interfaceDocument.getText();
 
   // Add the method to the interface
-  const updatedInterfaceCode = addMethodToInterface(interfaceCode, method);
+  const change = getAddMethodToInterfaceChange(
+    interfaceCode,
+    method,
+    targetInterface,
+    getCodeFormat(interfaceUri.fsPath, interfaceDocument)
+  );
 
-  if (updatedInterfaceCode === interfaceCode) {
+  if (!change) {
     vscode.window.showInformationMessage(
       `Method '${method.name}' already exists in ${targetInterface}.`
     );
@@ -356,18 +538,14 @@ async function addMethodToInterfaceHandler(
   }
 
   // Apply the edit
-  const fullRange = new vscode.Range(
-    new vscode.Position(0, 0),
-    new vscode.Position(interfaceDocument.lineCount, 0)
-  );
-
-  const edit = new vscode.WorkspaceEdit();
-  edit.replace(interfaceUri, fullRange, updatedInterfaceCode);
-  await vscode.workspace.applyEdit(edit);
+  await applyDocumentChanges(interfaceDocument, [change]);
 
   // Save the interface file
   await interfaceDocument.save();
 
+  // The class member now inherits its documentation from the interface
+  await applyInheritDoc(document, method);
+
   vscode.window.showInformationMessage(
     `Added '${method.name}' to ${targetInterface}.`
   );
@@ -376,16 +554,15 @@ async function addMethodToInterfaceHandler(
 /**
  * Handler for adding a property to an interface
  */
-async function addPropertyToInterfaceHandler(
-  property: { type: string; name: string },
-  interfaces: string[]
-) {
+async function addPropertyToInterfaceHandler(property: PropertyInfo, interfaces: string[]) {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showErrorMessage("No active editor found!");
     return;
   }
 
+  const document = editor.document;
+
   // If multiple interfaces, let user choose
   let targetInterface: string | undefined;
   if (interfaces.length === 1) {
@@ -400,47 +577,27 @@ async function addPropertyToInterfaceHandler(
     return; // User cancelled
   }
 
-  // Find the interface file
-  const interfaceFileName = `${targetInterface}.cs`;
-  const interfaceFiles = await vscode.workspace.findFiles(
-    `**/${interfaceFileName}`,
-    "**/node_modules/**"
-  );
-
-  if (interfaceFiles.length === 0) {
-    vscode.window.showErrorMessage(
-      `Could not find interface file '${interfaceFileName}' in workspace.`
-    );
+  // Look the interface up by the name the class uses for it
+  const interfaceDeclarations = await findInterfaceDeclarations(document, targetInterface, property.start);
+  if (interfaceDeclarations.length === 0) {
+    vscode.window.showErrorMessage(`Could not find interface '${targetInterface}' in the workspace.`);
     return;
   }
 
-  // Use the first match, or let user choose if multiple
-  let interfaceUri: vscode.Uri;
-  if (interfaceFiles.length === 1) {
-    interfaceUri = interfaceFiles[0];
-  } else {
-    const selected = await vscode.window.showQuickPick(
-      interfaceFiles.map((f) => ({
-        label: path.basename(f.fsPath),
-        description: path.dirname(f.fsPath),
-        uri: f,
-      })),
-      { placeHolder: "Multiple interface files found. Select one:" }
-    );
-    if (!selected) {
-      return;
-    }
-    interfaceUri = selected.uri;
-  }
-
   // Read the interface file
+  const interfaceUri = vscode.Uri.file(interfaceDeclarations[0].file.path);
   const interfaceDocument = await vscode.workspace.openTextDocument(interfaceUri);
   const interfaceCode = interfaceDocument.getText();
 
   // Add the property to the interface
-  const updatedInterfaceCode = addPropertyToInterface(interfaceCode, property);
+  const change = getAddPropertyToInterfaceChange(
+    interfaceCode,
+    property,
+    targetInterface,
+    getCodeFormat(interfaceUri.fsPath, interfaceDocument)
+  );
 
-  if (updatedInterfaceCode === interfaceCode) {
+  if (!change) {
     vscode.window.showInformationMessage(
       `Property '${property.name}' already exists in ${targetInterface}.`
     );
@@ -448,27 +605,28 @@ async function addPropertyToInterfaceHandler(
   }
 
   // Apply the edit
-  const fullRange = new vscode.Range(
-    new vscode.Position(0, 0),
-    new vscode.Position(interfaceDocument.lineCount, 0)
-  );
-
-  const edit = new vscode.WorkspaceEdit();
-  edit.replace(interfaceUri, fullRange, updatedInterfaceCode);
-  await vscode.workspace.applyEdit(edit);
+  await applyDocumentChanges(interfaceDocument, [change]);
 
   // Save the interface file
   await interfaceDocument.save();
 
+  // The class member now inherits its documentation from the interface
+  await applyInheritDoc(document, property);
+
   vscode.window.showInformationMessage(
     `Added '${property.name}' to ${targetInterface}.`
   );
 }
 
 /**
- * Handler for implementing interface stubs
+ * Handler for implementing interface stubs, explicitly or by forwarding to a member when asked
  */
-async function implementInterfaceHandler(interfaceName: string) {
+async function implementInterfaceHandler(
+  interfaceName: string,
+  offset?: number,
+  explicit: boolean = false,
+  delegateTo?: string
+) {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showErrorMessage("No active editor found!");
@@ -477,89 +635,580 @@ async function implementInterfaceHandler(interfaceName: string) {
 
   const document = editor.document;
   const classCode = document.getText();
+  const classOffset = offset ?? document.offsetAt(editor.selection.active);
 
-  // Find the interface file
-  const interfaceFileName = `${interfaceName}.cs`;
-  const interfaceFiles = await vscode.workspace.findFiles(
-    `**/${interfaceFileName}`,
-    "**/node_modules/**"
-  );
+  const memberGroups = await findInterfaceMemberGroups(document, interfaceName, classOffset);
+  if (memberGroups.length === 0) {
+    vscode.window.showErrorMessage(`Could not find interface '${interfaceName}' in the workspace.`);
+    return;
+  }
 
-  if (interfaceFiles.length === 0) {
-    vscode.window.showErrorMessage(
-      `Could not find interface file '${interfaceFileName}' in workspace.`
+  // Filter out already implemented members, wherever the partial declarations put them.
+  // Explicit implementations are needed for each interface, even of members declared twice.
+  const classType = findTargetType(classCode, classOffset);
+  const partials = classType ? await findWorkspacePartials(document, classType) : [];
+  const groups = (explicit ? memberGroups : removeDuplicateInterfaceMembers(memberGroups)).map((group) => ({
+    ...group,
+    members: filterUnimplementedMembers(
+      group.members,
+      classCode,
+      classOffset,
+      partials,
+      explicit ? group.interfaceName : undefined
+    ),
+  }));
+
+  // Check if there's anything to implement
+  const totalUnimplemented = groups.reduce((total, group) => total + countInterfaceMembers(group.members), 0);
+
+  if (totalUnimplemented === 0) {
+    vscode.window.showInformationMessage(
+      `All members of '${interfaceName}' are already implemented.`
     );
     return;
   }
 
-  // Use the first match, or let user choose if multiple
-  let interfaceUri: vscode.Uri;
-  if (interfaceFiles.length === 1) {
-    interfaceUri = interfaceFiles[0];
-  } else {
-    const selected = await vscode.window.showQuickPick(
-      interfaceFiles.map((f) => ({
-        label: path.basename(f.fsPath),
-        description: path.dirname(f.fsPath),
-        uri: f,
-      })),
-      { placeHolder: "Multiple interface files found. Select one:" }
+  // Generate stubs grouped by interface and insert them into the class
+  // Backing fields avoid the names of every part of the class
+  const usedNames = getClassMemberNames(classCode, classOffset, partials);
+  const inserted = await insertStubGroups(document, groups, classOffset, explicit, { delegateTo, usedNames });
+  if (!inserted) {
+    vscode.window.showErrorMessage(
+      "Could not find a suitable location to insert interface implementation."
     );
-    if (!selected) {
-      return;
-    }
-    interfaceUri = selected.uri;
+    return;
   }
 
-  // Read the interface file
-  const interfaceDocument = await vscode.workspace.openTextDocument(interfaceUri);
-  const interfaceCode = interfaceDocument.getText();
+  vscode.window.showInformationMessage(
+    `Implemented ${totalUnimplemented} member(s) from '${interfaceName}'.`
+  );
+}
 
-  // Parse interface members
-  const allMembers = parseInterfaceMembers(interfaceCode);
+/**
+ * Handler for overriding the abstract members of the base classes
+ */
+async function implementAbstractMembersHandler(offset?: number) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage("No active editor found!");
+    return;
+  }
 
-  // Filter out already implemented members
-  const unimplementedMembers = filterUnimplementedMembers(allMembers, classCode);
+  const document = editor.document;
+  const classCode = document.getText();
+  const classOffset = offset ?? document.offsetAt(editor.selection.active);
+  const classType = findTargetType(classCode, classOffset);
+  if (!classType) {
+    vscode.window.showErrorMessage("No class declaration found at the cursor.");
+    return;
+  }
 
-  // Check if there's anything to implement
-  const totalUnimplemented =
-    unimplementedMembers.methods.length +
-    unimplementedMembers.properties.length +
-    unimplementedMembers.events.length;
+  // Resolve the base classes through the workspace; overrides may be in any partial declaration
+  const partials = await findWorkspacePartials(document, classType);
+  const baseClasses = await findWorkspaceBaseClasses(document, classType, partials);
+  if (baseClasses.length === 0) {
+    vscode.window.showErrorMessage(`Could not find the base class of '${classType.name}' in the workspace.`);
+    return;
+  }
+  const baseName = getBaseClassName(baseClasses[0]);
+  const members = getAbstractMembers([classType, ...partials.map((p) => p.type)], baseClasses);
 
-  if (totalUnimplemented === 0) {
-    vscode.window.showInformationMessage(
-      `All members of '${interfaceName}' are already implemented.`
-    );
+  const total = countInterfaceMembers(members);
+  if (total === 0) {
+    vscode.window.showInformationMessage(`All abstract members of '${baseName}' are already implemented.`);
     return;
   }
 
-  // Generate stubs
-  const stubs = generateInterfaceStubs(unimplementedMembers);
+  // Generate overrides and insert them into the class
+  const inserted = await insertStubGroups(
+    document,
+    [{ interfaceName: baseName, members, isBaseClass: true }],
+    classOffset
+  );
+  if (!inserted) {
+    vscode.window.showErrorMessage("Could not find a suitable location to insert the overrides.");
+    return;
+  }
 
-  // Insert stubs into class
-  const updatedClassCode = insertInterfaceStubs(classCode, stubs);
+  vscode.window.showInformationMessage(`Implemented ${total} abstract member(s) of '${baseName}'.`);
+}
 
-  if (updatedClassCode === classCode) {
-    vscode.window.showErrorMessage(
-      "Could not find a suitable location to insert interface implementation."
-    );
+/**
+ * Handler for implementing the abstract members of the base classes and every implemented interface at once
+ */
+async function implementAllMembersHandler(offset?: number) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage("No active editor found!");
     return;
   }
 
-  // Apply the edit
-  const fullRange = new vscode.Range(
-    new vscode.Position(0, 0),
-    new vscode.Position(document.lineCount, 0)
+  const document = editor.document;
+  const classCode = document.getText();
+  const classOffset = offset ?? document.offsetAt(editor.selection.active);
+  const classType = findTargetType(classCode, classOffset);
+  if (!classType) {
+    vscode.window.showErrorMessage("No class declaration found at the cursor.");
+    return;
+  }
+
+  // Overrides come first, so an interface member with the same signature is not stubbed again
+  const partials = await findWorkspacePartials(document, classType);
+  const baseClasses = await findWorkspaceBaseClasses(document, classType, partials);
+  const baseGroups: InterfaceMemberGroup[] =
+    baseClasses.length > 0
+      ? [
+          {
+            interfaceName: getBaseClassName(baseClasses[0]),
+            members: getAbstractMembers([classType, ...partials.map((p) => p.type)], baseClasses),
+            isBaseClass: true,
+          },
+        ]
+      : [];
+  const interfaces = await findWorkspaceInterfaces(document, classOffset);
+  const interfaceGroups = (
+    await Promise.all(interfaces.map((name) => findInterfaceMemberGroups(document, name, classOffset)))
+  ).flat();
+
+  const groups = removeDuplicateInterfaceMembers([...baseGroups, ...interfaceGroups]).map((group) =>
+    group.isBaseClass
+      ? group
+      : { ...group, members: filterUnimplementedMembers(group.members, classCode, classOffset, partials) }
+  );
+  const total = groups.reduce((sum, group) => sum + countInterfaceMembers(group.members), 0);
+  if (total === 0) {
+    vscode.window.showInformationMessage(`All members of '${classType.name}' are already implemented.`);
+    return;
+  }
+
+  const inserted = await insertStubGroups(document, groups, classOffset);
+  if (!inserted) {
+    vscode.window.showErrorMessage("Could not find a suitable location to insert the missing members.");
+    return;
+  }
+
+  vscode.window.showInformationMessage(`Implemented ${total} missing member(s) of '${classType.name}'.`);
+}
+
+/**
+ * Insert stubs for member groups at the configured place, adding `using System;` when
+ * NotImplementedException or Array need it and the project lacks it globally.
+ * Returns false when the class has no insertion point.
+ */
+async function insertStubGroups(
+  document: vscode.TextDocument,
+  groups: InterfaceMemberGroup[],
+  offset: number,
+  explicit: boolean = false,
+  options: StubOptions = {}
+): Promise<boolean> {
+  const classCode = document.getText();
+  const format = getCodeFormat(document.uri.fsPath, document);
+  const changes = getInsertStubGroupsChanges(
+    classCode,
+    groups,
+    offset,
+    format,
+    getStubPlacement(document),
+    explicit,
+    { ...getStubOptions(document), ...options }
   );
+  if (changes.length === 0) {
+    return false;
+  }
 
-  const edit = new vscode.WorkspaceEdit();
-  edit.replace(document.uri, fullRange, updatedClassCode);
-  await vscode.workspace.applyEdit(edit);
+  const usingChange = usesSystemNamespace(changes.map((change) => change.newText).join("\n"))
+    ? getAddUsingChange(classCode, "System", getProjectUsings(await getTypeIndex(), document.uri.fsPath))
+    : null;
 
-  vscode.window.showInformationMessage(
-    `Implemented ${totalUnimplemented} member(s) from '${interfaceName}'.`
+  await applyDocumentChanges(document, usingChange ? [usingChange, ...changes] : changes);
+  return true;
+}
+
+/**
+ * Whether class member documentation is replaced with `/// <inheritdoc />` once copied to an interface
+ */
+function useInheritDoc(document: vscode.TextDocument): boolean {
+  return vscode.workspace
+    .getConfiguration("csharpEssentials", document.uri)
+    .get<boolean>("inheritDocOnClassMembers", true);
+}
+
+/**
+ * Which members Extract Interface offers, from the extension settings
+ */
+function getMemberFilter(document: vscode.TextDocument): MemberFilterOptions {
+  const settings = vscode.workspace.getConfiguration("csharpEssentials", document.uri);
+  return {
+    includeStaticMembers: settings.get<boolean>("includeStaticMembers", false),
+    excludedAttributes: settings.get<string[]>("excludedMemberAttributes", DEFAULT_EXCLUDED_ATTRIBUTES),
+  };
+}
+
+/**
+ * How generated stubs are written, from the extension settings
+ */
+function getStubOptions(document: vscode.TextDocument): StubOptions {
+  const settings = vscode.workspace.getConfiguration("csharpEssentials", document.uri);
+  return {
+    body: settings.get<StubBody>("stubBody", "throw"),
+    backingFields: settings.get<boolean>("explicitImplementationBackingFields", false),
+  };
+}
+
+/**
+ * Where generated stubs go in the class, from the extension settings
+ */
+function getStubPlacement(document: vscode.TextDocument): StubPlacement {
+  return vscode.workspace
+    .getConfiguration("csharpEssentials", document.uri)
+    .get<StubPlacement>("stubPlacement", "endOfClass");
+}
+
+/**
+ * Whether Extract Interface offers the public members of base classes
+ */
+function useInheritedMembers(document: vscode.TextDocument): boolean {
+  return vscode.workspace
+    .getConfiguration("csharpEssentials", document.uri)
+    .get<boolean>("includeInheritedMembers", false);
+}
+
+/**
+ * After a member has been pushed up to an interface, point its documentation there
+ */
+async function applyInheritDoc(
+  document: vscode.TextDocument,
+  member: MethodInfo | PropertyInfo
+): Promise<void> {
+  const change = useInheritDoc(document) ? getInheritDocChange(member) : null;
+  if (change) {
+    await applyDocumentChanges(document, [change]);
+  }
+}
+
+/**
+ * Path of the interface file for a name entered relative to the class file
+ */
+function getInterfacePath(document: vscode.TextDocument, interfaceNameFromPrompt: string): string {
+  const targetDirectory = path.resolve(
+    path.dirname(document.uri.fsPath),
+    path.dirname(interfaceNameFromPrompt)
   );
+  return path.join(targetDirectory, `${path.basename(interfaceNameFromPrompt)}.cs`);
+}
+
+/**
+ * Formatting for generated code in a file: .editorconfig settings,
+ * falling back to the editor's tab settings and the document's line endings
+ */
+function getCodeFormat(filePath: string, document: vscode.TextDocument): CodeFormat {
+  const editor = vscode.window.visibleTextEditors.find((e) => e.document === document);
+  const editorSettings = vscode.workspace.getConfiguration("editor", document.uri);
+  const insertSpaces = editor?.options.insertSpaces ?? editorSettings.get<boolean>("insertSpaces", true);
+  const tabSize = editor?.options.tabSize ?? editorSettings.get<number>("tabSize", 4);
+
+  return resolveCodeFormat(getEditorConfigProperties(readEditorConfigFiles(filePath), filePath), {
+    indentStyle: insertSpaces === false ? "tab" : "space",
+    indentSize: typeof tabSize === "number" ? tabSize : 4,
+    endOfLine: document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n",
+  });
+}
+
+/**
+ * .editorconfig files from the file's directory up to the file system root, nearest first
+ */
+function readEditorConfigFiles(filePath: string): EditorConfigFile[] {
+  const files: EditorConfigFile[] = [];
+  let directory = path.dirname(filePath);
+  while (true) {
+    const configPath = path.join(directory, ".editorconfig");
+    if (fs.existsSync(configPath)) {
+      files.push({ directory, content: fs.readFileSync(configPath, "utf8") });
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return files;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * The workspace's C# types, built on first use and kept current by a file watcher
+ */
+let typeIndex: Promise<TypeIndex> | undefined;
+
+/**
+ * Files the index leaves out: build output and packages
+ */
+const IGNORED_PATH = /[\\/](bin|obj|node_modules)[\\/]/;
+
+/**
+ * Start indexing the workspace; a failed build is dropped so the next use starts over
+ */
+function loadTypeIndex(): Promise<TypeIndex> {
+  const building = buildTypeIndex();
+  building.catch(() => {
+    if (typeIndex === building) {
+      typeIndex = undefined;
+    }
+  });
+  return building;
+}
+
+/**
+ * Index every C# file in the workspace, reading one file at a time so the extension host
+ * stays responsive. Files that cannot be read, such as broken symlinks, are skipped.
+ */
+async function buildTypeIndex(): Promise<TypeIndex> {
+  const index = createTypeIndex();
+  for (const uri of await vscode.workspace.findFiles("**/*.cs", "{**/bin/**,**/obj/**,**/node_modules/**}")) {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      indexFile(index, { path: uri.fsPath, code: Buffer.from(content).toString("utf8") });
+    } catch {
+      // Left out of the index; the watcher adds it once it becomes readable
+    }
+  }
+  return index;
+}
+
+/**
+ * The type index if it has been built, without starting a build or failing with one
+ */
+async function getBuiltTypeIndex(): Promise<TypeIndex | undefined> {
+  return typeIndex?.catch(() => undefined);
+}
+
+/**
+ * Re-read a file into the index after it changed on disk, or drop it once it is gone
+ */
+async function reindexFile(uri: vscode.Uri): Promise<void> {
+  const index = IGNORED_PATH.test(uri.fsPath) ? undefined : await getBuiltTypeIndex();
+  if (!index) {
+    return;
+  }
+  try {
+    indexFile(index, { path: uri.fsPath, code: fs.readFileSync(uri.fsPath, "utf8") });
+  } catch {
+    removeIndexedFile(index, uri.fsPath);
+  }
+}
+
+/**
+ * Keep the type index in step with the C# files of the workspace
+ */
+function watchTypeIndex(context: vscode.ExtensionContext): void {
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*.cs");
+  watcher.onDidCreate(reindexFile);
+  watcher.onDidChange(reindexFile);
+  watcher.onDidDelete(async (uri) => {
+    const index = await getBuiltTypeIndex();
+    if (index) {
+      removeIndexedFile(index, uri.fsPath);
+    }
+  });
+  context.subscriptions.push(
+    watcher,
+    // Unsaved edits of a closed document are thrown away
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      if (document.languageId === "csharp" && document.uri.scheme === "file") {
+        void reindexFile(document.uri);
+      }
+    })
+  );
+}
+
+/**
+ * The workspace type index, with open documents indexed as they are in the editor
+ */
+async function getTypeIndex(): Promise<TypeIndex> {
+  typeIndex ??= loadTypeIndex();
+  const index = await typeIndex;
+  for (const document of vscode.workspace.textDocuments) {
+    if (document.isDirty && document.languageId === "csharp" && document.uri.scheme === "file") {
+      indexFile(index, toSourceFile(document));
+    }
+  }
+  return index;
+}
+
+function toSourceFile(document: vscode.TextDocument): SourceFile {
+  return { path: document.uri.fsPath, code: document.getText() };
+}
+
+/**
+ * The global usings of the project a file belongs to: its csproj and the
+ * `global using` directives of the project's files
+ */
+function getProjectUsings(index: TypeIndex, filePath: string): GlobalUsings {
+  const projectFile = findProjectFile(filePath);
+  if (!projectFile) {
+    return { namespaces: [], aliases: [] };
+  }
+  const projectDirectory = path.dirname(projectFile);
+  const directives = getGlobalUsingDirectives(index, (file) => {
+    const relative = path.relative(projectDirectory, file.path);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+  return mergeGlobalUsings([
+    getProjectGlobalUsings(fs.readFileSync(projectFile, "utf8")),
+    toGlobalUsings(directives),
+  ]);
+}
+
+/**
+ * The other partial declarations of a type anywhere in the workspace,
+ * including source-generated files
+ */
+async function findWorkspacePartials(
+  document: vscode.TextDocument,
+  type: TypeDeclaration
+): Promise<PartialDeclaration[]> {
+  const index = await getTypeIndex();
+  return getPartialDeclarations(index, { file: toSourceFile(document), type });
+}
+
+/**
+ * The base classes of a type declared in the workspace, nearest first.
+ * The base class may be listed on any of its partial declarations.
+ */
+async function findWorkspaceBaseClasses(
+  document: vscode.TextDocument,
+  type: TypeDeclaration,
+  partials: PartialDeclaration[]
+): Promise<BaseClassDeclaration[]> {
+  const index = await getTypeIndex();
+  for (const declaration of [{ file: toSourceFile(document), type }, ...partials]) {
+    const chain = getBaseClassChain(index, declaration);
+    if (chain.length > 0) {
+      return chain;
+    }
+  }
+  return [];
+}
+
+/**
+ * The declarations of an interface referenced in a document, resolved by fully qualified
+ * name through the type at the offset, its namespaces and the document's usings
+ */
+async function findInterfaceDeclarations(
+  document: vscode.TextDocument,
+  interfaceName: string,
+  offset?: number
+): Promise<IndexedType[]> {
+  const index = await getTypeIndex();
+  const file = toSourceFile(document);
+  const type = findTargetType(file.code, offset);
+  return resolveTypeReference(index, interfaceName, { file, type }).filter(
+    (t) => t.type.kind === "interface"
+  );
+}
+
+/**
+ * The members of an interface referenced in a document, then those of the interfaces it
+ * inherits from; framework interfaces are known too. Empty when the interface is not found.
+ */
+async function findInterfaceMemberGroups(
+  document: vscode.TextDocument,
+  interfaceName: string,
+  offset?: number
+): Promise<InterfaceMemberGroup[]> {
+  const declarations = await findInterfaceDeclarations(document, interfaceName, offset);
+  const ownMembers = getInterfaceMemberGroup(interfaceName, declarations.map((d) => d.type));
+  if (!ownMembers) {
+    return [];
+  }
+  const index = await getTypeIndex();
+  const inheritedMembers = getInheritedInterfaces(index, declarations, interfaceName).flatMap(
+    (base) => getInterfaceMemberGroup(base.reference, base.declarations.map((d) => d.type)) ?? []
+  );
+  return [ownMembers, ...inheritedMembers];
+}
+
+/**
+ * The interfaces in the base list of the type at the offset, told apart from the
+ * base class by their declarations in the workspace
+ */
+async function findWorkspaceInterfaces(document: vscode.TextDocument, offset: number): Promise<string[]> {
+  const index = await getTypeIndex();
+  const file = toSourceFile(document);
+  return findImplementedInterfaces(
+    document.getText(),
+    offset,
+    (reference, type) => resolveTypeReference(index, reference, { file, type })[0]?.type.kind
+  );
+}
+
+/**
+ * All members of an interface hierarchy in one list
+ */
+function mergeInterfaceMembers(groups: InterfaceMemberGroup[]): InterfaceMembers {
+  return {
+    methods: groups.flatMap((g) => g.members.methods),
+    properties: groups.flatMap((g) => g.members.properties),
+    events: groups.flatMap((g) => g.members.events),
+    indexers: groups.flatMap((g) => g.members.indexers ?? []),
+  };
+}
+
+/**
+ * The nearest .csproj file in the file's directory or above
+ */
+function findProjectFile(filePath: string): string | undefined {
+  let directory = path.dirname(filePath);
+  while (true) {
+    let entries: string[] = [];
+    try {
+      entries = fs.readdirSync(directory);
+    } catch {
+      // Unreadable directories cannot hold the project file
+    }
+    const projectFile = entries.find((name) => name.endsWith(".csproj"));
+    if (projectFile) {
+      return path.join(directory, projectFile);
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Whether a new file should start with a UTF-8 BOM: as the .editorconfig charset says,
+ * otherwise as the source file it was generated from
+ */
+function shouldWriteBom(newFilePath: string, sourceFilePath: string): boolean {
+  const { charset } = getEditorConfigProperties(readEditorConfigFiles(newFilePath), newFilePath);
+  if (charset) {
+    return charset === "utf-8-bom";
+  }
+  if (!fs.existsSync(sourceFilePath)) {
+    return false;
+  }
+  const bytes = fs.readFileSync(sourceFilePath);
+  return bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+}
+
+/**
+ * Apply offset-based text changes to a document as a single workspace edit
+ */
+async function applyDocumentChanges(
+  document: vscode.TextDocument,
+  changes: TextChange[]
+): Promise<boolean> {
+  const edit = new vscode.WorkspaceEdit();
+  for (const change of changes) {
+    edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)),
+      change.newText
+    );
+  }
+  return vscode.workspace.applyEdit(edit);
 }
 
 function deactivate() {}
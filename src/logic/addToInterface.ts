@@ -2,21 +2,101 @@
  * Logic for adding members to existing interfaces
  */
 
-import { MethodInfo, PropertyInfo } from "./csharpParser";
+import {
+  MethodInfo,
+  PropertyInfo,
+  IndexerInfo,
+  EventInfo,
+  PropertyAccessor,
+  toMethodInfo,
+  toPropertyInfo,
+  findInterfaceType,
+  findMemberAtOffset,
+  findTargetType,
+  isImplementationType,
+} from "./csharpParser";
+import {
+  parseCSharp,
+  parseMemberDeclaration,
+  getAllTypes,
+  MemberDeclaration,
+  DocumentationComment,
+  TypeDeclaration,
+  TypeKind,
+} from "./csharpSyntax";
+import {
+  TextChange,
+  applyTextChanges,
+  detectLineEnding,
+  getLineEnd,
+  getLineIndent,
+} from "./textChanges";
+import { CodeFormat, DEFAULT_CODE_FORMAT, getIndentUnit } from "./formatting";
 
 /**
  * Generate a method signature for an interface
  */
 export function generateMethodSignature(method: MethodInfo): string {
   const generic = method.genericParams ? `<${method.genericParams}>` : "";
-  return `${method.returnType} ${method.name}${generic}(${method.parameters});`;
+  const constraints = method.constraints ? ` ${method.constraints}` : "";
+  return `${staticAbstract(method)}${method.returnType} ${method.name}${generic}(${method.parameters})${constraints};`;
 }
 
 /**
  * Generate a property signature for an interface
  */
 export function generatePropertySignature(property: PropertyInfo): string {
-  return `${property.type} ${property.name} { get; set; }`;
+  return `${staticAbstract(property)}${property.type} ${property.name} ${generateAccessorList(property.accessors)}`;
+}
+
+/**
+ * Generate an event signature for an interface
+ */
+export function generateEventSignature(event: EventInfo): string {
+  return `${staticAbstract(event)}event ${event.type} ${event.name};`;
+}
+
+/**
+ * Static members can only go on an interface as `static abstract` members
+ */
+function staticAbstract(member: { isStatic?: boolean }): string {
+  return member.isStatic ? "static abstract " : "";
+}
+
+/**
+ * Generate an indexer signature for an interface
+ */
+export function generateIndexerSignature(indexer: IndexerInfo): string {
+  return `${indexer.type} this[${indexer.parameters}] ${generateAccessorList(indexer.accessors)}`;
+}
+
+/**
+ * Documentation lines to copy onto an interface member; `<inheritdoc />` is not worth copying
+ */
+export function generateDocumentationLines(member: { documentation?: DocumentationComment }): string[] {
+  const documentation = member.documentation;
+  return documentation && !isInheritDoc(documentation) ? [...documentation.lines] : [];
+}
+
+/**
+ * Compute the edit that replaces a class member's documentation with `/// <inheritdoc />`,
+ * once the documentation has been copied to the interface.
+ * Returns null if there is nothing to replace.
+ */
+export function getInheritDocChange(member: { documentation?: DocumentationComment }): TextChange | null {
+  const documentation = member.documentation;
+  if (!documentation || isInheritDoc(documentation)) {
+    return null;
+  }
+  return { start: documentation.start, end: documentation.end, newText: "/// <inheritdoc />" };
+}
+
+function isInheritDoc(documentation: DocumentationComment): boolean {
+  return documentation.lines.some((line) => /<inheritdoc\b/.test(line));
+}
+
+function generateAccessorList(accessors: PropertyAccessor[] = ["get", "set"]): string {
+  return `{ ${accessors.map((a) => `${a};`).join(" ")} }`;
 }
 
 /**
@@ -25,10 +105,35 @@ export function generatePropertySignature(property: PropertyInfo): string {
  */
 export function addMethodToInterface(
   interfaceCode: string,
-  method: MethodInfo
+  method: MethodInfo,
+  interfaceName?: string,
+  format: CodeFormat = DEFAULT_CODE_FORMAT
 ): string {
-  const signature = generateMethodSignature(method);
-  return addMemberToInterface(interfaceCode, signature);
+  const change = getAddMethodToInterfaceChange(interfaceCode, method, interfaceName, format);
+  return change ? applyTextChanges(interfaceCode, [change]) : interfaceCode;
+}
+
+/**
+ * Compute the edit that adds a method signature to an interface
+ * Returns null if the method already exists or no interface is found
+ */
+export function getAddMethodToInterfaceChange(
+  interfaceCode: string,
+  method: MethodInfo,
+  interfaceName?: string,
+  format: CodeFormat = DEFAULT_CODE_FORMAT
+): TextChange | null {
+  const lines = [...generateDocumentationLines(method), generateMethodSignature(method)];
+  return getAddMemberToInterfaceChange(
+    interfaceCode,
+    interfaceName,
+    lines,
+    format,
+    (m) =>
+      m.kind === "method" &&
+      m.name === method.name &&
+      normalizeParameters(m.parameters) === normalizeParameters(method.parameters)
+  );
 }
 
 /**
@@ -37,82 +142,82 @@ export function addMethodToInterface(
  */
 export function addPropertyToInterface(
   interfaceCode: string,
-  property: PropertyInfo
+  property: PropertyInfo,
+  interfaceName?: string,
+  format: CodeFormat = DEFAULT_CODE_FORMAT
 ): string {
-  const signature = generatePropertySignature(property);
-  return addMemberToInterface(interfaceCode, signature);
+  const change = getAddPropertyToInterfaceChange(interfaceCode, property, interfaceName, format);
+  return change ? applyTextChanges(interfaceCode, [change]) : interfaceCode;
 }
 
 /**
- * Add a member (method or property signature) to an interface
- * Handles both namespaced and non-namespaced interfaces
+ * Compute the edit that adds a property signature to an interface
+ * Returns null if the property already exists or no interface is found
  */
-function addMemberToInterface(
+export function getAddPropertyToInterfaceChange(
   interfaceCode: string,
-  memberSignature: string
-): string {
-  // Check if the member already exists in the interface
-  // Extract just the member name for comparison
-  const memberNameMatch = memberSignature.match(/(\w+)\s*[<(]/);
-  if (memberNameMatch) {
-    const memberName = memberNameMatch[1];
-    // Check if this method/property name already exists
-    const existingPattern = new RegExp(`\\b${memberName}\\s*[<(]`);
-    if (existingPattern.test(interfaceCode)) {
-      // Member already exists, return unchanged
-      return interfaceCode;
-    }
-  }
-
-  // Find the closing brace of the interface
-  // Handle both tabbed (namespaced) and non-tabbed formats
-
-  // Try to find the interface body pattern
-  const interfaceMatch = interfaceCode.match(
-    /(interface\s+\w+\s*(?:<[^>]*>)?\s*\{)([\s\S]*?)(\})/
+  property: PropertyInfo,
+  interfaceName?: string,
+  format: CodeFormat = DEFAULT_CODE_FORMAT
+): TextChange | null {
+  const lines = [...generateDocumentationLines(property), generatePropertySignature(property)];
+  return getAddMemberToInterfaceChange(
+    interfaceCode,
+    interfaceName,
+    lines,
+    format,
+    (m) => m.kind !== "method" && m.name === property.name
   );
+}
 
-  if (!interfaceMatch) {
-    // Could not find interface pattern, return unchanged
-    return interfaceCode;
+/**
+ * Compute the insertion of a member (method or property signature) into an interface
+ * Handles both namespaced and non-namespaced interfaces, and files declaring several types
+ */
+function getAddMemberToInterfaceChange(
+  interfaceCode: string,
+  interfaceName: string | undefined,
+  memberLines: string[],
+  format: CodeFormat,
+  alreadyExists: (member: MemberDeclaration) => boolean
+): TextChange | null {
+  const interfaceType = findInterfaceType(interfaceCode, interfaceName);
+
+  if (!interfaceType || interfaceType.closeBrace === -1) {
+    // Could not find interface declaration
+    return null;
   }
 
-  const interfaceStart = interfaceMatch[1];
-  const interfaceBody = interfaceMatch[2];
-  const interfaceEnd = interfaceMatch[3];
-
-  // Determine indentation from existing members or use default
-  const existingMemberMatch = interfaceBody.match(/^(\s+)\S/m);
-  const indent = existingMemberMatch ? existingMemberMatch[1] : "    ";
-
-  // Check if body has content (excluding whitespace)
-  const hasContent = interfaceBody.trim().length > 0;
-
-  let newBody: string;
-  if (hasContent) {
-    // Add new member after existing content
-    // Remove trailing whitespace from body, add new member, then closing
-    const trimmedBody = interfaceBody.trimEnd();
-    newBody = `${trimmedBody}\n${indent}${memberSignature}\n`;
-  } else {
-    // Empty interface, add first member
-    newBody = `\n${indent}${memberSignature}\n`;
+  if (interfaceType.members.some(alreadyExists)) {
+    return null;
   }
 
-  // Reconstruct the interface
-  const beforeInterface = interfaceCode.substring(
-    0,
-    interfaceCode.indexOf(interfaceMatch[0])
-  );
-  const afterInterface = interfaceCode.substring(
-    interfaceCode.indexOf(interfaceMatch[0]) + interfaceMatch[0].length
-  );
+  const eol = detectLineEnding(interfaceCode);
+  const lastMember = interfaceType.members[interfaceType.members.length - 1];
 
-  // Determine closing brace indentation
-  const closingIndentMatch = interfaceCode.match(/^(\s*)\}[\s\S]*$/m);
-  const closingIndent = closingIndentMatch ? "" : "";
+  if (lastMember) {
+    // Insert on a new line after the last member, keeping its indentation
+    const indent = getLineIndent(interfaceCode, lastMember.start);
+    const insertAt = getLineEnd(interfaceCode, lastMember.end);
+    const newText = memberLines.map((line) => `${eol}${indent}${line}`).join("");
+    return { start: insertAt, end: insertAt, newText };
+  }
 
-  return `${beforeInterface}${interfaceStart}${newBody}${closingIndent}${interfaceEnd}${afterInterface}`;
+  // Empty interface: replace the whitespace between the braces
+  const declarationIndent = getLineIndent(interfaceCode, interfaceType.start);
+  const memberIndent = `${declarationIndent}${getIndentUnit(format)}`;
+  return {
+    start: interfaceType.openBrace + 1,
+    end: interfaceType.closeBrace,
+    newText: `${memberLines.map((line) => `${eol}${memberIndent}${line}`).join("")}${eol}${declarationIndent}`,
+  };
+}
+
+/**
+ * Normalize a parameter list for signature comparison
+ */
+function normalizeParameters(parameters: string): string {
+  return parameters.replace(/\s+/g, "");
 }
 
 /**
@@ -120,53 +225,88 @@ function addMemberToInterface(
  * Returns null if the line doesn't contain a valid public method
  */
 export function parseMethodFromLine(line: string, fullText: string): MethodInfo | null {
-  // Match public methods (including async)
-  const methodRegex =
-    /public\s+(?:async\s+)?([\w<>\[\]]+)\s+(\w+)\s*(?:<([^>]*)>)?\s*\(([^)]*)\)/;
+  const member = parseMemberDeclaration(line);
+  if (!member || member.kind !== "method" || !member.modifiers.includes("public")) {
+    return null;
+  }
 
-  const match = line.match(methodRegex);
-  if (!match) {
+  // A member named after a type in the file is a constructor, not a method
+  const typeNames = getAllTypes(parseCSharp(fullText)).map((t) => t.name);
+  if (typeNames.includes(member.name)) {
     return null;
   }
 
-  const [, returnType, name, genericParams, parameters] = match;
+  return toMethodInfo(member);
+}
 
-  // Check if this is a constructor (method name matches class name)
-  const classMatch = fullText.match(/class\s+(\w+)/);
-  if (classMatch && classMatch[1] === name) {
-    return null; // This is a constructor, not a method
+/**
+ * Find the public method whose declaration contains the offset
+ * Returns null if the cursor is not on a public method of a class
+ */
+export function findMethodAtOffset(code: string, offset: number): MethodInfo | null {
+  const found = findMemberAtOffset(code, offset);
+  if (!found || !isImplementationType(found.type)) {
+    return null;
   }
+  const { member } = found;
+  return member.kind === "method" && member.modifiers.includes("public")
+    ? toMethodInfo(member)
+    : null;
+}
 
-  return {
-    returnType,
-    name,
-    genericParams: genericParams || null,
-    parameters,
-  };
+/**
+ * Find the public property whose declaration contains the offset
+ * Returns null if the cursor is not on a public property of a class
+ */
+export function findPropertyAtOffset(code: string, offset: number): PropertyInfo | null {
+  const found = findMemberAtOffset(code, offset);
+  if (!found || !isImplementationType(found.type)) {
+    return null;
+  }
+  const { member } = found;
+  return member.kind === "property" && member.modifiers.includes("public")
+    ? toPropertyInfo(member)
+    : null;
 }
 
+/**
+ * Kind of a base-list entry of a type, or undefined when its declaration cannot be found
+ */
+export type BaseTypeResolver = (reference: string, type: TypeDeclaration) => TypeKind | undefined;
+
 /**
  * Find all interfaces implemented by a class in the given code
+ * With an offset, only the type containing it is considered
  */
-export function findImplementedInterfaces(classCode: string): string[] {
-  // Match class declaration with inheritance
+export function findImplementedInterfaces(
+  classCode: string,
+  offset?: number,
+  resolveKind?: BaseTypeResolver
+): string[] {
   // Handles: public class Foo : IBar, IBaz
   // Handles: public class Foo(params) : Base, IBar
-  const classMatch = classCode.match(
-    /class\s+\w+(?:\s*\([^)]*\))?\s*:\s*([^{]+)/
-  );
+  const classType = offset !== undefined
+    ? findTargetType(classCode, offset)
+    : getAllTypes(parseCSharp(classCode)).find(
+      (t) => t.kind === "class" && t.baseList.length > 0
+    );
 
-  if (!classMatch) {
+  if (!classType) {
     return [];
   }
 
-  const inheritanceList = classMatch[1];
-
-  // Split by comma and filter for interfaces (starting with 'I' followed by uppercase)
-  return inheritanceList
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => /^I[A-Z]/.test(s));
+  return classType.baseList.filter((reference, i) => {
+    const kind = resolveKind?.(reference, classType);
+    if (kind) {
+      return kind === "interface";
+    }
+    // Only the first entry of a class or record can be a base class; structs have none
+    if (i > 0 || classType.kind === "struct" || classType.kind === "record struct") {
+      return true;
+    }
+    // Types from packages and the framework: go by the naming convention
+    return /^I[A-Z]/.test(reference);
+  });
 }
 
 /**
@@ -174,22 +314,13 @@ export function findImplementedInterfaces(classCode: string): string[] {
  * Returns null if the line doesn't contain a valid public property
  */
 export function parsePropertyFromLine(line: string): PropertyInfo | null {
-  // Match public properties with get accessor
   // Handles: public string Name { get; set; }
   // Handles: public int Count { get; }
   // Handles: public List<string> Items { get; set; }
-  const propertyRegex =
-    /public\s+([\w<>\[\]?]+)\s+(\w+)\s*{\s*get/;
-
-  const match = line.match(propertyRegex);
-  if (!match) {
+  const member = parseMemberDeclaration(line);
+  if (!member || member.kind !== "property" || !member.modifiers.includes("public")) {
     return null;
   }
 
-  const [, type, name] = match;
-
-  return {
-    type,
-    name,
-  };
+  return toPropertyInfo(member);
 }
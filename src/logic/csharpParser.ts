@@ -1,57 +1,53 @@
 /**
- * Shared C# parsing utilities and regex patterns
+ * Shared C# parsing utilities built on the declaration tree
  */
 
-// Regex patterns for C# code parsing
-export const CSharpPatterns = {
-  // Namespace: captures namespace name
-  namespace: /namespace\s+([\w.]+)/,
-
-  // Using statements: matches all using lines
-  usings: /^using\s+.*;/gm,
-
-  // Class declaration: captures class name, handles partial
-  classDeclaration: /public\s+(?:partial\s+)?class\s+(\w+)/,
-
-  // Method: captures return type, name, generic params, parameters
-  // Excludes constructors by checking for opening brace after params
-  method: /public\s+(?:async\s+)?([\w<>\[\]]+)\s+(\w+)\s*(?:<([^>]*)>)?\s*\(([^)]*)\)\s*(?={)/g,
-
-  // Property: captures type and name
-  property: /public\s+([\w<>\[\]?]+)\s+(\w+)\s*{\s*get/g,
-
-  // Event: captures event type and name
-  event: /public\s+event\s+([\w<>\[\].]+)\s+(\w+)\s*;/g,
-
-  // Field: captures access modifier, readonly, type, name
-  field: /(private|protected|internal)\s+(readonly\s+)?([\w<>\[\]?]+)\s+(_?\w+)\s*[;=]/g,
-
-  // Interface implementation in class declaration
-  interfaceImplementation: /:\s*([\w<>,\s]+)(?=\s*{)/,
-};
+import {
+  parseCSharp,
+  getAllTypes,
+  getAllNamespaces,
+  findTypeAtOffset,
+  TypeDeclaration,
+  MemberDeclaration,
+  MethodDeclaration,
+  PropertyDeclaration,
+  IndexerDeclaration,
+  EventDeclaration,
+  AccessorDeclaration,
+  DocumentationComment,
+  parseParameterList,
+} from "./csharpSyntax";
+import { tokenize } from "./csharpTokenizer";
+import { getLineEnd, getLineStart } from "./textChanges";
 
 /**
  * Extract namespace from C# code
  */
 export function extractNamespace(code: string): string | null {
-  const match = code.match(CSharpPatterns.namespace);
-  return match ? match[1] : null;
+  const namespaces = getAllNamespaces(parseCSharp(code));
+  return namespaces.length > 0 ? namespaces[0].name : null;
 }
 
 /**
  * Extract using statements from C# code
  */
 export function extractUsings(code: string): string {
-  const matches = code.match(CSharpPatterns.usings);
-  return matches ? matches.join("\n") : "";
+  const unit = parseCSharp(code);
+  const usings = [
+    ...unit.usings,
+    ...getAllNamespaces(unit).flatMap((ns) => ns.usings),
+  ];
+  return usings.map((u) => u.text).join("\n");
 }
 
 /**
  * Extract class name from C# code
  */
 export function extractClassName(code: string): string | null {
-  const match = code.match(CSharpPatterns.classDeclaration);
-  return match ? match[1] : null;
+  const classType = getAllTypes(parseCSharp(code)).find(
+    (t) => t.kind === "class" && t.modifiers.includes("public")
+  );
+  return classType ? classType.name : null;
 }
 
 /**
@@ -62,23 +58,237 @@ export interface MethodInfo {
   name: string;
   genericParams: string | null;
   parameters: string;
+  /** `where` clauses of the method's type parameters, e.g. `where T : class` */
+  constraints?: string;
+  /** Declared `static`; on an interface this is a `static abstract` member */
+  isStatic?: boolean;
+  /** Access modifiers of a class member an override has to repeat, e.g. `protected internal` */
+  accessModifier?: string;
+  /** Source offsets of the declaration, when parsed from code */
+  start?: number;
+  end?: number;
+  /** XML documentation comment above the declaration */
+  documentation?: DocumentationComment;
+}
+
+/**
+ * Whether a type can hold implementation members (everything but interfaces and enums)
+ */
+export function isImplementationType(type: TypeDeclaration): boolean {
+  return type.kind !== "interface" && type.kind !== "enum";
+}
+
+function getImplementationTypes(code: string): TypeDeclaration[] {
+  return getAllTypes(parseCSharp(code)).filter(isImplementationType);
+}
+
+/**
+ * Find the type a refactoring should work on.
+ * With an offset this is the innermost class, struct or record containing it;
+ * otherwise the one named `preferredName`, falling back to the first class (or struct or record).
+ */
+export function findTargetType(
+  code: string,
+  offset?: number,
+  preferredName?: string
+): TypeDeclaration | undefined {
+  const unit = parseCSharp(code);
+  if (offset !== undefined) {
+    return findTypeAtOffset(unit, offset, isImplementationType);
+  }
+
+  const types = getAllTypes(unit).filter(isImplementationType);
+  return (
+    types.find((t) => t.name === preferredName) ??
+    types.find((t) => t.kind === "class") ??
+    types[0]
+  );
+}
+
+/**
+ * A C# file in the workspace
+ */
+export interface SourceFile {
+  path: string;
+  code: string;
+}
+
+/**
+ * One `partial` declaration of a type and the file it is in
+ */
+export interface PartialDeclaration {
+  file: SourceFile;
+  type: TypeDeclaration;
+}
+
+/**
+ * A base class of a type, with the type arguments its derived classes supply
+ */
+export interface BaseClassDeclaration extends PartialDeclaration {
+  /** Type arguments by type parameter name, e.g. T = Order for `Repository<Order>` */
+  typeArguments: Map<string, string>;
+}
+
+/**
+ * Split a type reference into its name and type arguments, e.g. `Repository<Order, int>`
+ */
+export function parseTypeReference(reference: string): { name: string; typeArguments: string[] } {
+  const open = reference.indexOf("<");
+  if (open === -1 || !reference.trimEnd().endsWith(">")) {
+    return { name: reference.trim(), typeArguments: [] };
+  }
+
+  const typeArguments: string[] = [];
+  const inner = reference.substring(open + 1, reference.lastIndexOf(">"));
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (ch === "<" || ch === "(" || ch === "[") {
+      depth++;
+    } else if (ch === ">" || ch === ")" || ch === "]") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      typeArguments.push(inner.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+  typeArguments.push(inner.substring(start).trim());
+  return { name: reference.substring(0, open).trim(), typeArguments };
+}
+
+/**
+ * Replace type parameters in a type or parameter list, e.g. `IList<T> items` with T = Order
+ */
+export function substituteTypeParameters(text: string, typeArguments: Map<string, string>): string {
+  if (typeArguments.size === 0) {
+    return text;
+  }
+
+  let result = "";
+  let last = 0;
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    const replacement = typeArguments.get(token.text);
+    if (token.kind === "word" && replacement !== undefined && tokens[i - 1]?.text !== ".") {
+      result += text.substring(last, token.start) + replacement;
+      last = token.end;
+    }
+  });
+  return result + text.substring(last);
+}
+
+/**
+ * Names of the type parameters in a declaration's list, e.g. `[Attr] TKey, TValue` gives TKey, TValue
+ */
+export function getTypeParameterNames(typeParameters: string | null): string[] {
+  return typeParameters ? typeParameters.split(",").map(getTypeParameterName) : [];
+}
+
+/**
+ * Name of one type parameter, without attributes and variance, e.g. `[Attr] out T` gives T
+ */
+export function getTypeParameterName(parameter: string): string {
+  return parameter.trim().split(/[\s\]]+/).pop() ?? "";
+}
+
+/**
+ * Find an interface declaration by name (type arguments are ignored),
+ * or the first interface in the code when no name is given
+ */
+export function findInterfaceType(
+  code: string,
+  interfaceName?: string
+): TypeDeclaration | undefined {
+  const interfaces = getAllTypes(parseCSharp(code)).filter((t) => t.kind === "interface");
+  if (!interfaceName) {
+    return interfaces[0];
+  }
+  const simpleName = interfaceName.replace(/<.*$/, "").split(".").pop();
+  return interfaces.find((t) => t.name === simpleName);
+}
+
+/**
+ * Whether the offset lies on the declaration header of a type
+ * (from the first line of the declaration up to its opening brace)
+ */
+export function isTypeHeaderAt(code: string, type: TypeDeclaration, offset: number): boolean {
+  const headerEnd = type.openBrace !== -1 ? type.openBrace : type.end;
+  return offset >= getLineStart(code, type.start) && offset <= headerEnd;
+}
+
+/**
+ * Find the member whose signature lines contain the offset, within the innermost type
+ */
+export function findMemberAtOffset(
+  code: string,
+  offset: number
+): { type: TypeDeclaration; member: MemberDeclaration } | undefined {
+  const type = findTypeAtOffset(parseCSharp(code), offset);
+  const member = type?.members.find(
+    (m) => offset >= getLineStart(code, m.start) && offset <= getLineEnd(code, m.headerEnd)
+  );
+  return type && member ? { type, member } : undefined;
+}
+
+/**
+ * Members of the given kind declared directly in a type
+ */
+function getMembersOfKind<K extends MemberDeclaration["kind"]>(
+  type: TypeDeclaration,
+  kind: K
+): Extract<MemberDeclaration, { kind: K }>[] {
+  return type.members.filter(
+    (m): m is Extract<MemberDeclaration, { kind: K }> => m.kind === kind
+  );
+}
+
+/**
+ * Members of the given kind declared in implementation types
+ */
+function getMembers<K extends MemberDeclaration["kind"]>(
+  code: string,
+  kind: K
+): Extract<MemberDeclaration, { kind: K }>[] {
+  return getImplementationTypes(code).flatMap((t) => getMembersOfKind(t, kind));
+}
+
+function isPublic(member: MemberDeclaration): boolean {
+  return member.modifiers.includes("public");
 }
 
 /**
  * Extract all public methods from C# code
  */
 export function extractMethods(code: string, excludeClassName?: string): MethodInfo[] {
-  const regex = new RegExp(CSharpPatterns.method.source, "g");
-  const matches = [...code.matchAll(regex)];
+  return getMembers(code, "method")
+    .filter((m) => isPublic(m))
+    .filter((m) => !excludeClassName || m.name !== excludeClassName)
+    .map(toMethodInfo);
+}
 
-  return matches
-    .filter((match) => !excludeClassName || match[2] !== excludeClassName)
-    .map((match) => ({
-      returnType: match[1],
-      name: match[2],
-      genericParams: match[3] || null,
-      parameters: match[4],
-    }));
+/**
+ * Public methods declared directly in a type (not in nested types)
+ */
+export function getPublicMethods(type: TypeDeclaration): MethodInfo[] {
+  return getMembersOfKind(type, "method").filter(isPublic).map(toMethodInfo);
+}
+
+/**
+ * Convert a method declaration node into a MethodInfo
+ */
+export function toMethodInfo(method: MethodDeclaration): MethodInfo {
+  return {
+    returnType: method.returnType,
+    name: method.name,
+    genericParams: method.typeParameters,
+    parameters: method.parameters,
+    constraints: method.constraints ?? undefined,
+    isStatic: method.modifiers.includes("static"),
+    start: method.start,
+    end: method.end,
+    documentation: method.documentation ?? undefined,
+  };
 }
 
 /**
@@ -87,19 +297,45 @@ export function extractMethods(code: string, excludeClassName?: string): MethodI
 export interface EventInfo {
   type: string;
   name: string;
+  /** Declared `static`; on an interface this is a `static abstract` member */
+  isStatic?: boolean;
+  /** Access modifiers of a class member an override has to repeat, e.g. `protected internal` */
+  accessModifier?: string;
+  /** Source offsets of the declaration, when parsed from code */
+  start?: number;
+  end?: number;
+  /** XML documentation comment above the declaration */
+  documentation?: DocumentationComment;
 }
 
 /**
  * Extract all public events from C# code
  */
 export function extractEvents(code: string): EventInfo[] {
-  const regex = new RegExp(CSharpPatterns.event.source, "g");
-  const matches = [...code.matchAll(regex)];
+  return getMembers(code, "event")
+    .filter((m) => isPublic(m))
+    .map(toEventInfo);
+}
+
+/**
+ * Public events declared directly in a type (not in nested types)
+ */
+export function getPublicEvents(type: TypeDeclaration): EventInfo[] {
+  return getMembersOfKind(type, "event").filter(isPublic).map(toEventInfo);
+}
 
-  return matches.map((match) => ({
-    type: match[1],
-    name: match[2],
-  }));
+/**
+ * Convert an event declaration node into an EventInfo
+ */
+export function toEventInfo(event: EventDeclaration): EventInfo {
+  return {
+    type: event.type,
+    name: event.name,
+    isStatic: event.modifiers.includes("static"),
+    start: event.start,
+    end: event.end,
+    documentation: event.documentation ?? undefined,
+  };
 }
 
 /**
@@ -108,19 +344,134 @@ export function extractEvents(code: string): EventInfo[] {
 export interface PropertyInfo {
   type: string;
   name: string;
+  /** Accessors visible to callers, e.g. ["get", "init"]; get and set when omitted */
+  accessors?: PropertyAccessor[];
+  /** Declared `static`; on an interface this is a `static abstract` member */
+  isStatic?: boolean;
+  /** Access modifiers of a class member an override has to repeat, e.g. `protected internal` */
+  accessModifier?: string;
+  /** Access modifiers of single accessors an override has to repeat, e.g. `{ set: "protected" }` */
+  accessorModifiers?: Partial<Record<PropertyAccessor, string>>;
+  /** Declared `required`, so object initializers have to set it */
+  isRequired?: boolean;
+  /** Source offsets of the declaration, when parsed from code */
+  start?: number;
+  end?: number;
+  /** XML documentation comment above the declaration */
+  documentation?: DocumentationComment;
+}
+
+export type PropertyAccessor = "get" | "set" | "init";
+
+/**
+ * Represents a parsed indexer, e.g. `string this[int index]`
+ */
+export interface IndexerInfo {
+  type: string;
+  parameters: string;
+  /** Accessors visible to callers; get and set when omitted */
+  accessors?: PropertyAccessor[];
+  /** Access modifiers of a class member an override has to repeat, e.g. `protected internal` */
+  accessModifier?: string;
+  /** Access modifiers of single accessors an override has to repeat, e.g. `{ set: "protected" }` */
+  accessorModifiers?: Partial<Record<PropertyAccessor, string>>;
+  /** Source offsets of the declaration, when parsed from code */
+  start?: number;
+  end?: number;
+  /** XML documentation comment above the declaration */
+  documentation?: DocumentationComment;
 }
 
 /**
  * Extract all public properties from C# code
  */
 export function extractProperties(code: string): PropertyInfo[] {
-  const regex = new RegExp(CSharpPatterns.property.source, "g");
-  const matches = [...code.matchAll(regex)];
+  return getMembers(code, "property")
+    .filter((m) => isPublic(m))
+    .map(toPropertyInfo);
+}
 
-  return matches.map((match) => ({
-    type: match[1],
-    name: match[2],
-  }));
+/**
+ * Public properties declared directly in a type (not in nested types)
+ */
+export function getPublicProperties(type: TypeDeclaration): PropertyInfo[] {
+  return getMembersOfKind(type, "property").filter(isPublic).map(toPropertyInfo);
+}
+
+/**
+ * Convert a property declaration node into a PropertyInfo
+ */
+export function toPropertyInfo(property: PropertyDeclaration): PropertyInfo {
+  return {
+    type: property.type,
+    name: property.name,
+    accessors: getVisibleAccessors(property.accessors),
+    isStatic: property.modifiers.includes("static"),
+    isRequired: property.modifiers.includes("required"),
+    start: property.start,
+    end: property.end,
+    documentation: property.documentation ?? undefined,
+  };
+}
+
+/**
+ * Properties a record synthesizes from its positional parameters, unless its body declares them.
+ * They are init-only, except in mutable (non-readonly) record structs.
+ */
+export function getPositionalProperties(type: TypeDeclaration): PropertyInfo[] {
+  if ((type.kind !== "record" && type.kind !== "record struct") || !type.parameters) {
+    return [];
+  }
+
+  const declared = new Set(type.members.map((m) => m.name));
+  const accessors: PropertyAccessor[] =
+    type.kind === "record struct" && !type.modifiers.includes("readonly")
+      ? ["get", "set"]
+      : ["get", "init"];
+
+  return parseParameterList(type.parameters)
+    .filter((p) => p.name && !declared.has(p.name))
+    .map((p) => ({ type: p.type, name: p.name, accessors: [...accessors] }));
+}
+
+/**
+ * Extract all public indexers from C# code
+ */
+export function extractIndexers(code: string): IndexerInfo[] {
+  return getMembers(code, "indexer")
+    .filter((m) => isPublic(m))
+    .map(toIndexerInfo);
+}
+
+/**
+ * Public indexers declared directly in a type (not in nested types)
+ */
+export function getPublicIndexers(type: TypeDeclaration): IndexerInfo[] {
+  return getMembersOfKind(type, "indexer").filter(isPublic).map(toIndexerInfo);
+}
+
+/**
+ * Convert an indexer declaration node into an IndexerInfo
+ */
+export function toIndexerInfo(indexer: IndexerDeclaration): IndexerInfo {
+  return {
+    type: indexer.type,
+    parameters: indexer.parameters,
+    accessors: getVisibleAccessors(indexer.accessors),
+    start: indexer.start,
+    end: indexer.end,
+    documentation: indexer.documentation ?? undefined,
+  };
+}
+
+/**
+ * Accessors without a restricting modifier; `{ get; private set; }` is get-only to callers
+ */
+function getVisibleAccessors(accessors: AccessorDeclaration[]): PropertyAccessor[] {
+  return accessors
+    .filter((a) => !a.modifiers.some((m) => m !== "public" && ACCESS_MODIFIERS.includes(m)))
+    .map((a) => a.kind)
+    .filter((kind): kind is PropertyAccessor => kind === "get" || kind === "set" || kind === "init");
 }
 
 /**
@@ -133,32 +484,36 @@ export interface FieldInfo {
   name: string;
 }
 
+const ACCESS_MODIFIERS = ["public", "private", "protected", "internal"];
+
 /**
- * Extract all fields from C# code
+ * Extract all non-public fields from C# code
  */
 export function extractFields(code: string): FieldInfo[] {
-  const regex = new RegExp(CSharpPatterns.field.source, "g");
-  const matches = [...code.matchAll(regex)];
+  return getImplementationTypes(code).flatMap(getFields);
+}
 
-  return matches.map((match) => ({
-    accessModifier: match[1],
-    isReadonly: !!match[2],
-    type: match[3],
-    name: match[4],
-  }));
+/**
+ * Non-public fields declared directly in a type (not in nested types)
+ */
+export function getFields(type: TypeDeclaration): FieldInfo[] {
+  return getMembersOfKind(type, "field")
+    .filter((m) => !isPublic(m) && !m.modifiers.includes("const"))
+    .map((m) => {
+      const access = m.modifiers.filter((mod) => ACCESS_MODIFIERS.includes(mod));
+      return {
+        accessModifier: access.length > 0 ? access.join(" ") : "private",
+        isReadonly: m.modifiers.includes("readonly"),
+        type: m.type,
+        name: m.name,
+      };
+    });
 }
 
 /**
- * Extract interfaces implemented by a class
+ * Extract the base list (base class and interfaces) of the first type that declares one
  */
 export function extractImplementedInterfaces(code: string): string[] {
-  const match = code.match(CSharpPatterns.interfaceImplementation);
-  if (!match) {
-    return [];
-  }
-
-  return match[1]
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+  const type = getAllTypes(parseCSharp(code)).find((t) => t.baseList.length > 0);
+  return type ? [...type.baseList] : [];
 }
@@ -0,0 +1,1114 @@
+/**
+ * Lightweight C# declaration parser built on the tokenizer.
+ *
+ * Only declarations are modelled (usings, namespaces, types and members);
+ * method bodies, initializers and statements are skipped by brace matching.
+ */
+
+import { Token, tokenize } from "./csharpTokenizer";
+
+/**
+ * Offsets of a node in the source text (end is exclusive)
+ */
+export interface SyntaxNode {
+  start: number;
+  end: number;
+}
+
+export interface UsingDirective extends SyntaxNode {
+  text: string;
+  name: string;
+  alias: string | null;
+  isStatic: boolean;
+  isGlobal: boolean;
+}
+
+export interface NamespaceDeclaration extends SyntaxNode {
+  name: string;
+  isFileScoped: boolean;
+  usings: UsingDirective[];
+  namespaces: NamespaceDeclaration[];
+  types: TypeDeclaration[];
+}
+
+export type TypeKind = "class" | "struct" | "interface" | "enum" | "record" | "record struct";
+
+export interface TypeDeclaration extends SyntaxNode {
+  kind: TypeKind;
+  name: string;
+  modifiers: string[];
+  attributes: string[];
+  typeParameters: string | null;
+  parameters: string | null;
+  baseList: string[];
+  constraints: string | null;
+  namespace: string | null;
+  members: MemberDeclaration[];
+  types: TypeDeclaration[];
+  /** Offset just past the name, parameters and base list, where a base type can be appended */
+  headerEnd: number;
+  openBrace: number;
+  closeBrace: number;
+}
+
+export interface AccessorDeclaration {
+  kind: "get" | "set" | "init" | "add" | "remove";
+  modifiers: string[];
+}
+
+/**
+ * The `///` lines directly above a declaration; start and end span them without
+ * the leading indentation and the final line break
+ */
+export interface DocumentationComment {
+  lines: string[];
+  start: number;
+  end: number;
+}
+
+interface MemberBase extends SyntaxNode {
+  name: string;
+  modifiers: string[];
+  attributes: string[];
+  /** Offset just past the signature, before any body, accessor list or initializer */
+  headerEnd: number;
+  documentation: DocumentationComment | null;
+}
+
+export interface MethodDeclaration extends MemberBase {
+  kind: "method";
+  returnType: string;
+  typeParameters: string | null;
+  parameters: string;
+  constraints: string | null;
+  explicitInterface: string | null;
+  hasBody: boolean;
+}
+
+export interface ConstructorDeclaration extends MemberBase {
+  kind: "constructor";
+  parameters: string;
+}
+
+export interface PropertyDeclaration extends MemberBase {
+  kind: "property";
+  type: string;
+  explicitInterface: string | null;
+  accessors: AccessorDeclaration[];
+}
+
+export interface IndexerDeclaration extends MemberBase {
+  kind: "indexer";
+  type: string;
+  parameters: string;
+  explicitInterface: string | null;
+  accessors: AccessorDeclaration[];
+}
+
+export interface EventDeclaration extends MemberBase {
+  kind: "event";
+  type: string;
+  explicitInterface: string | null;
+  accessors: AccessorDeclaration[];
+}
+
+export interface FieldDeclaration extends MemberBase {
+  kind: "field";
+  type: string;
+}
+
+export type MemberDeclaration =
+  | MethodDeclaration
+  | ConstructorDeclaration
+  | PropertyDeclaration
+  | IndexerDeclaration
+  | EventDeclaration
+  | FieldDeclaration;
+
+/**
+ * One parameter of a parameter list, e.g. `[NotNull] ref string value = null`
+ */
+export interface ParameterDeclaration {
+  attributes: string[];
+  /** this, params, ref, out, in, scoped and readonly */
+  modifiers: string[];
+  type: string;
+  name: string;
+  defaultValue: string | null;
+}
+
+export interface CompilationUnit {
+  usings: UsingDirective[];
+  namespaces: NamespaceDeclaration[];
+  types: TypeDeclaration[];
+}
+
+const MODIFIERS = new Set([
+  "public", "private", "protected", "internal", "static", "readonly", "const",
+  "virtual", "override", "abstract", "sealed", "async", "extern", "unsafe",
+  "volatile", "new", "partial", "required", "file",
+]);
+
+const ACCESSOR_KINDS = new Set(["get", "set", "init", "add", "remove"]);
+
+const PARAMETER_MODIFIERS = new Set(["this", "params", "ref", "out", "in", "scoped", "readonly"]);
+
+let lastParsed: { code: string; unit: CompilationUnit } | null = null;
+
+/**
+ * Parse C# source into a declaration tree
+ */
+export function parseCSharp(code: string): CompilationUnit {
+  if (lastParsed && lastParsed.code === code) {
+    return lastParsed.unit;
+  }
+
+  const tokens = tokenize(code);
+  const unit: CompilationUnit = { usings: [], namespaces: [], types: [] };
+  // A stray closing brace at the top level should not end parsing
+  for (let pos = 0; pos < tokens.length; pos++) {
+    pos = parseNamespaceBody(tokens, pos, unit, null);
+  }
+  // Comments are not tokens, so documentation is read back from the source
+  for (const type of getAllTypes(unit)) {
+    for (const member of type.members) {
+      member.documentation = readDocumentationComment(code, member.start);
+    }
+  }
+
+  lastParsed = { code, unit };
+  return unit;
+}
+
+/**
+ * Parse a single member declaration, e.g. one line of a class body.
+ * Trailing incomplete bodies are tolerated.
+ */
+export function parseMemberDeclaration(code: string): MemberDeclaration | null {
+  const tokens = tokenize(code);
+  const owner = createType("class", "", [], [], 0, null);
+  parseMember(tokens, 0, owner);
+  const member = owner.members[0];
+  if (!member) {
+    return null;
+  }
+  member.documentation = readDocumentationComment(code, member.start);
+  return member;
+}
+
+/**
+ * Parse a parameter list (without the parentheses), such as a method's or a record's
+ */
+export function parseParameterList(parameters: string): ParameterDeclaration[] {
+  const tokens = tokenize(parameters);
+  return splitTopLevel(tokens, 0, tokens.length).map(([from, to]) => {
+    let pos = from;
+    const attributes: string[] = [];
+    while (tokens[pos]?.text === "[" && pos < to) {
+      const close = skipBalanced(tokens, pos);
+      attributes.push(textOf(tokens, pos, close));
+      pos = close;
+    }
+
+    const modifiers: string[] = [];
+    while (pos < to && PARAMETER_MODIFIERS.has(tokens[pos].text)) {
+      modifiers.push(tokens[pos].text);
+      pos++;
+    }
+
+    const typeEnd = Math.min(readType(tokens, pos), to);
+    const hasDefault = tokens[typeEnd + 1]?.text === "=" && typeEnd + 1 < to;
+    return {
+      attributes,
+      modifiers,
+      type: textOf(tokens, pos, typeEnd),
+      name: typeEnd < to ? tokens[typeEnd].text : "",
+      defaultValue: hasDefault ? textOf(tokens, typeEnd + 2, to) : null,
+    };
+  });
+}
+
+/**
+ * All type declarations in the unit, including nested ones, in document order
+ */
+export function getAllTypes(unit: CompilationUnit): TypeDeclaration[] {
+  const result: TypeDeclaration[] = [];
+  const visitType = (type: TypeDeclaration) => {
+    result.push(type);
+    type.types.forEach(visitType);
+  };
+  const visitContainer = (container: { types: TypeDeclaration[]; namespaces: NamespaceDeclaration[] }) => {
+    container.types.forEach(visitType);
+    container.namespaces.forEach(visitContainer);
+  };
+  visitContainer(unit);
+  return result.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Innermost type declaration containing the offset that matches the predicate
+ */
+export function findTypeAtOffset(
+  unit: CompilationUnit,
+  offset: number,
+  predicate: (type: TypeDeclaration) => boolean = () => true
+): TypeDeclaration | undefined {
+  return getAllTypes(unit)
+    .filter((t) => predicate(t) && t.start <= offset && offset <= t.end)
+    .pop();
+}
+
+/**
+ * All namespace declarations in the unit, in document order
+ */
+export function getAllNamespaces(unit: CompilationUnit): NamespaceDeclaration[] {
+  const result: NamespaceDeclaration[] = [];
+  const visit = (ns: NamespaceDeclaration) => {
+    result.push(ns);
+    ns.namespaces.forEach(visit);
+  };
+  unit.namespaces.forEach(visit);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Namespaces and types
+// ---------------------------------------------------------------------------
+
+interface Container {
+  usings: UsingDirective[];
+  namespaces: NamespaceDeclaration[];
+  types: TypeDeclaration[];
+}
+
+/**
+ * Parse namespace members until a closing brace or the end of input.
+ * Returns the position of the closing brace (or tokens.length).
+ */
+function parseNamespaceBody(
+  tokens: Token[],
+  pos: number,
+  container: Container,
+  namespaceName: string | null
+): number {
+  while (pos < tokens.length) {
+    const token = tokens[pos];
+
+    if (token.text === "}") {
+      return pos;
+    }
+
+    if (isUsingDirective(tokens, pos)) {
+      pos = parseUsing(tokens, pos, container.usings);
+      continue;
+    }
+
+    if (token.text === "namespace") {
+      pos = parseNamespace(tokens, pos, container, namespaceName);
+      continue;
+    }
+
+    const start = pos;
+    const header = parseMemberHeader(tokens, pos);
+    if (isTypeKeyword(tokens, header.pos)) {
+      const [type, next] = parseType(tokens, header.pos, header, tokens[start].start, namespaceName);
+      container.types.push(type);
+      pos = next;
+      continue;
+    }
+
+    // extern alias, delegates, top-level statements: skip
+    pos = skipStatement(tokens, header.pos);
+  }
+  return pos;
+}
+
+/**
+ * Read the `///` comment block ending on the line above a declaration starting at `start`
+ */
+function readDocumentationComment(code: string, start: number): DocumentationComment | null {
+  let lineStart = code.lastIndexOf("\n", start - 1) + 1;
+  if (code.substring(lineStart, start).trim() !== "") {
+    return null;
+  }
+
+  const lines: string[] = [];
+  let docStart = -1;
+  let docEnd = -1;
+  while (lineStart > 0) {
+    const previousStart = code.lastIndexOf("\n", lineStart - 2) + 1;
+    const line = code.substring(previousStart, lineStart - 1).replace(/\r$/, "");
+    const text = line.trim();
+    if (!text.startsWith("///") || text.startsWith("////")) {
+      break;
+    }
+    lines.unshift(text);
+    docStart = previousStart + line.indexOf("///");
+    if (docEnd === -1) {
+      docEnd = previousStart + line.length;
+    }
+    lineStart = previousStart;
+  }
+
+  return lines.length > 0 ? { lines, start: docStart, end: docEnd } : null;
+}
+
+function isUsingDirective(tokens: Token[], pos: number): boolean {
+  if (tokens[pos]?.text === "global" && tokens[pos + 1]?.text === "using") {
+    pos++;
+  }
+  if (tokens[pos]?.text !== "using") {
+    return false;
+  }
+  const next = tokens[pos + 1];
+  return !!next && next.kind === "word" && next.text !== "var";
+}
+
+function parseUsing(tokens: Token[], pos: number, usings: UsingDirective[]): number {
+  const start = pos;
+  const isGlobal = tokens[pos].text === "global";
+  pos += isGlobal ? 2 : 1;
+
+  const isStatic = tokens[pos]?.text === "static";
+  if (isStatic) {
+    pos++;
+  }
+
+  let alias: string | null = null;
+  if (tokens[pos + 1]?.text === "=") {
+    alias = tokens[pos].text;
+    pos += 2;
+  }
+
+  const nameStart = pos;
+  while (pos < tokens.length && tokens[pos].text !== ";") {
+    pos++;
+  }
+  const end = Math.min(pos, tokens.length - 1);
+
+  usings.push({
+    text: textOf(tokens, start, end + 1),
+    name: textOf(tokens, nameStart, pos),
+    alias,
+    isStatic,
+    isGlobal,
+    start: tokens[start].start,
+    end: tokens[end].end,
+  });
+  return pos + 1;
+}
+
+function parseNamespace(
+  tokens: Token[],
+  pos: number,
+  container: Container,
+  outerName: string | null
+): number {
+  const start = tokens[pos].start;
+  pos++;
+
+  const nameStart = pos;
+  while (pos < tokens.length && tokens[pos].text !== "{" && tokens[pos].text !== ";") {
+    pos++;
+  }
+  const localName = textOf(tokens, nameStart, pos);
+  const name = outerName ? `${outerName}.${localName}` : localName;
+  const isFileScoped = tokens[pos]?.text === ";";
+
+  const namespace: NamespaceDeclaration = {
+    name,
+    isFileScoped,
+    usings: [],
+    namespaces: [],
+    types: [],
+    start,
+    end: start,
+  };
+  container.namespaces.push(namespace);
+
+  pos = parseNamespaceBody(tokens, pos + 1, namespace, name);
+
+  if (isFileScoped) {
+    namespace.end = tokens[Math.min(pos, tokens.length) - 1]?.end ?? start;
+    return pos;
+  }
+
+  namespace.end = tokens[pos]?.end ?? tokens[tokens.length - 1].end;
+  return pos + 1;
+}
+
+function isTypeKeyword(tokens: Token[], pos: number): boolean {
+  const text = tokens[pos]?.text;
+  if (text === "class" || text === "struct" || text === "interface" || text === "enum") {
+    return tokens[pos + 1]?.kind === "word";
+  }
+  if (text === "record") {
+    return tokens[pos + 1]?.kind === "word";
+  }
+  return false;
+}
+
+function createType(
+  kind: TypeKind,
+  name: string,
+  modifiers: string[],
+  attributes: string[],
+  start: number,
+  namespace: string | null
+): TypeDeclaration {
+  return {
+    kind,
+    name,
+    modifiers,
+    attributes,
+    typeParameters: null,
+    parameters: null,
+    baseList: [],
+    constraints: null,
+    namespace,
+    members: [],
+    types: [],
+    headerEnd: start,
+    openBrace: -1,
+    closeBrace: -1,
+    start,
+    end: start,
+  };
+}
+
+function parseType(
+  tokens: Token[],
+  pos: number,
+  header: MemberHeader,
+  start: number,
+  namespace: string | null
+): [TypeDeclaration, number] {
+  let kind = tokens[pos].text as TypeKind;
+  pos++;
+  if (kind === "record") {
+    if (tokens[pos].text === "struct") {
+      kind = "record struct";
+      pos++;
+    } else if (tokens[pos].text === "class") {
+      pos++;
+    }
+  }
+
+  const type = createType(kind, tokens[pos]?.text ?? "", header.modifiers, header.attributes, start, namespace);
+  pos++;
+
+  if (tokens[pos]?.text === "<") {
+    const close = skipAngles(tokens, pos);
+    type.typeParameters = textOf(tokens, pos + 1, close - 1);
+    pos = close;
+  }
+
+  if (tokens[pos]?.text === "(") {
+    const close = skipBalanced(tokens, pos);
+    type.parameters = textOf(tokens, pos + 1, close - 1);
+    pos = close;
+  }
+
+  if (tokens[pos]?.text === ":") {
+    pos++;
+    while (pos < tokens.length) {
+      const entryStart = pos;
+      pos = readType(tokens, pos);
+      if (pos === entryStart) {
+        break;
+      }
+      type.baseList.push(textOf(tokens, entryStart, pos));
+      // Record base types may pass primary constructor arguments
+      if (tokens[pos]?.text === "(") {
+        pos = skipBalanced(tokens, pos);
+      }
+      if (tokens[pos]?.text !== ",") {
+        break;
+      }
+      pos++;
+    }
+  }
+
+  type.headerEnd = tokens[pos - 1].end;
+
+  if (tokens[pos]?.text === "where") {
+    const constraintStart = pos;
+    while (pos < tokens.length && tokens[pos].text !== "{" && tokens[pos].text !== ";") {
+      pos++;
+    }
+    type.constraints = textOf(tokens, constraintStart, pos);
+  }
+
+  if (tokens[pos]?.text === "{") {
+    type.openBrace = tokens[pos].start;
+    if (kind === "enum") {
+      pos = skipBalanced(tokens, pos) - 1;
+    } else {
+      pos = parseTypeBody(tokens, pos + 1, type);
+    }
+    if (pos < tokens.length) {
+      type.closeBrace = tokens[pos].start;
+      type.end = tokens[pos].end;
+      pos++;
+    } else {
+      type.end = tokens[tokens.length - 1].end;
+    }
+    // Optional trailing semicolon after a type body
+    if (tokens[pos]?.text === ";") {
+      pos++;
+    }
+  } else if (tokens[pos]?.text === ";") {
+    type.end = tokens[pos].end;
+    pos++;
+  } else {
+    type.end = tokens[pos - 1]?.end ?? start;
+  }
+
+  return [type, pos];
+}
+
+/**
+ * Parse members of a type body. Returns the position of the closing brace.
+ */
+function parseTypeBody(tokens: Token[], pos: number, type: TypeDeclaration): number {
+  while (pos < tokens.length && tokens[pos].text !== "}") {
+    pos = parseMember(tokens, pos, type);
+  }
+  return pos;
+}
+
+// ---------------------------------------------------------------------------
+// Members
+// ---------------------------------------------------------------------------
+
+interface MemberHeader {
+  attributes: string[];
+  modifiers: string[];
+  pos: number;
+}
+
+/**
+ * Read attribute lists and modifiers preceding a declaration
+ */
+function parseMemberHeader(tokens: Token[], pos: number): MemberHeader {
+  const attributes: string[] = [];
+  const modifiers: string[] = [];
+
+  while (pos < tokens.length) {
+    const token = tokens[pos];
+    if (token.text === "[") {
+      const close = skipBalanced(tokens, pos);
+      attributes.push(...splitAttributeList(tokens, pos + 1, close - 1));
+      pos = close;
+    } else if (MODIFIERS.has(token.text) && (tokens[pos + 1]?.kind === "word" || tokens[pos + 1]?.text === "(")) {
+      modifiers.push(token.text);
+      pos++;
+    } else if (token.text === "ref" && (tokens[pos + 1]?.text === "struct" || tokens[pos + 1]?.text === "partial")) {
+      modifiers.push(token.text);
+      pos++;
+    } else {
+      break;
+    }
+  }
+
+  return { attributes, modifiers, pos };
+}
+
+function splitAttributeList(tokens: Token[], from: number, to: number): string[] {
+  // Drop an attribute target such as "return:" or "assembly:"
+  if (tokens[from + 1]?.text === ":" && from + 1 < to) {
+    from += 2;
+  }
+  return splitTopLevel(tokens, from, to).map(([s, e]) => textOf(tokens, s, e));
+}
+
+/**
+ * Parse one member and add it to the owner. Always advances at least one token.
+ */
+function parseMember(tokens: Token[], pos: number, owner: TypeDeclaration): number {
+  const startPos = pos;
+  const start = tokens[pos].start;
+  const header = parseMemberHeader(tokens, pos);
+  pos = header.pos;
+
+  const base = {
+    attributes: header.attributes,
+    modifiers: header.modifiers,
+    start,
+  };
+  const token = tokens[pos];
+
+  if (!token) {
+    return tokens.length;
+  }
+
+  if (isTypeKeyword(tokens, pos)) {
+    const [nested, next] = parseType(tokens, pos, header, start, owner.namespace);
+    owner.types.push(nested);
+    return next;
+  }
+
+  // Destructors, delegates and conversion operators are not interesting
+  if (token.text === "~" || token.text === "delegate" || token.text === "implicit" || token.text === "explicit") {
+    return skipMemberBody(tokens, pos);
+  }
+
+  if (token.text === "event") {
+    return parseEvent(tokens, pos + 1, owner, base);
+  }
+
+  // Constructor: identifier directly followed by a parameter list
+  if (token.kind === "word" && tokens[pos + 1]?.text === "(") {
+    const close = skipBalanced(tokens, pos + 1);
+    const end = skipMemberBody(tokens, close);
+    owner.members.push({
+      ...base,
+      kind: "constructor",
+      name: token.text,
+      parameters: textOf(tokens, pos + 2, close - 1),
+      headerEnd: tokens[close - 1].end,
+      documentation: null,
+      end: tokens[end - 1].end,
+    });
+    return end;
+  }
+
+  const typeStart = pos;
+  const typeEnd = readType(tokens, pos);
+  if (typeEnd === typeStart || typeEnd >= tokens.length) {
+    return Math.max(skipStatement(tokens, pos), startPos + 1);
+  }
+  const type = textOf(tokens, typeStart, typeEnd);
+  pos = typeEnd;
+
+  if (tokens[pos].text === "operator") {
+    return skipMemberBody(tokens, pos);
+  }
+
+  const name = readMemberName(tokens, pos);
+  pos = name.pos;
+  const next = tokens[pos]?.text;
+  const nameEnd = tokens[pos - 1].end;
+
+  if (name.name === "this" && next === "[") {
+    const close = skipBalanced(tokens, pos);
+    const [accessors, end] = parseAccessorsOrExpression(tokens, close);
+    owner.members.push({
+      ...base,
+      kind: "indexer",
+      name: "this",
+      type,
+      parameters: textOf(tokens, pos + 1, close - 1),
+      explicitInterface: name.explicitInterface,
+      accessors,
+      headerEnd: tokens[close - 1].end,
+      documentation: null,
+      end: tokens[end - 1].end,
+    });
+    return end;
+  }
+
+  if (next === "(") {
+    const close = skipBalanced(tokens, pos);
+    let constraints: string | null = null;
+    let bodyPos = close;
+    if (tokens[bodyPos]?.text === "where") {
+      const constraintStart = bodyPos;
+      while (bodyPos < tokens.length && !["{", ";", "=>"].includes(tokens[bodyPos].text)) {
+        bodyPos++;
+      }
+      constraints = textOf(tokens, constraintStart, bodyPos);
+    }
+    const hasBody = tokens[bodyPos]?.text === "{" || tokens[bodyPos]?.text === "=>";
+    const end = skipMemberBody(tokens, bodyPos);
+    owner.members.push({
+      ...base,
+      kind: "method",
+      name: name.name,
+      returnType: type,
+      typeParameters: name.typeParameters,
+      parameters: textOf(tokens, pos + 1, close - 1),
+      constraints,
+      explicitInterface: name.explicitInterface,
+      hasBody,
+      headerEnd: tokens[bodyPos - 1].end,
+      documentation: null,
+      end: tokens[end - 1].end,
+    });
+    return end;
+  }
+
+  if (next === "{" || next === "=>") {
+    const [accessors, end] = parseAccessorsOrExpression(tokens, pos);
+    owner.members.push({
+      ...base,
+      kind: "property",
+      name: name.name,
+      type,
+      explicitInterface: name.explicitInterface,
+      accessors,
+      headerEnd: nameEnd,
+      documentation: null,
+      end: tokens[end - 1].end,
+    });
+    return end;
+  }
+
+  if (next === "=" || next === ";" || next === "," || next === "[") {
+    const names = [name.name];
+    while (pos < tokens.length && tokens[pos].text !== ";") {
+      if (isDeclaratorStart(tokens, pos)) {
+        names.push(tokens[pos + 1].text);
+        pos += 2;
+      } else {
+        pos = skipExpression(tokens, pos);
+      }
+    }
+    const end = Math.min(pos + 1, tokens.length);
+    for (const fieldName of names) {
+      owner.members.push({
+        ...base,
+        kind: "field",
+        name: fieldName,
+        type,
+        headerEnd: nameEnd,
+        documentation: null,
+        end: tokens[end - 1].end,
+      });
+    }
+    return end;
+  }
+
+  return Math.max(skipStatement(tokens, pos), startPos + 1);
+}
+
+function parseEvent(
+  tokens: Token[],
+  pos: number,
+  owner: TypeDeclaration,
+  base: { attributes: string[]; modifiers: string[]; start: number }
+): number {
+  const typeStart = pos;
+  pos = readType(tokens, pos);
+  const type = textOf(tokens, typeStart, pos);
+
+  const name = readMemberName(tokens, pos);
+  pos = name.pos;
+  const headerEnd = tokens[pos - 1].end;
+
+  if (tokens[pos]?.text === "{") {
+    const [accessors, end] = parseAccessorsOrExpression(tokens, pos);
+    owner.members.push({
+      ...base,
+      kind: "event",
+      name: name.name,
+      type,
+      explicitInterface: name.explicitInterface,
+      accessors,
+      headerEnd,
+      documentation: null,
+      end: tokens[end - 1].end,
+    });
+    return end;
+  }
+
+  // Field-like event, possibly declaring several names
+  const names = [name.name];
+  while (pos < tokens.length && tokens[pos].text !== ";") {
+    if (isDeclaratorStart(tokens, pos)) {
+      names.push(tokens[pos + 1].text);
+      pos += 2;
+    } else {
+      pos = skipExpression(tokens, pos);
+    }
+  }
+  const end = Math.min(pos + 1, tokens.length);
+  for (const eventName of names) {
+    owner.members.push({
+      ...base,
+      kind: "event",
+      name: eventName,
+      type,
+      explicitInterface: name.explicitInterface,
+      accessors: [],
+      headerEnd,
+      documentation: null,
+      end: tokens[end - 1].end,
+    });
+  }
+  return end;
+}
+
+/**
+ * Whether a comma starts another declarator (`, b = 2` or `, b;`) rather than
+ * belonging to an initializer such as `new Dictionary<int, string>()`
+ */
+function isDeclaratorStart(tokens: Token[], pos: number): boolean {
+  return tokens[pos].text === "," &&
+    tokens[pos + 1]?.kind === "word" &&
+    ["=", ",", ";"].includes(tokens[pos + 2]?.text);
+}
+
+/**
+ * Parse an accessor list `{ get; private set; }` or an expression body `=> x;`,
+ * including a trailing initializer. Returns the accessors and the position after the member.
+ */
+function parseAccessorsOrExpression(tokens: Token[], pos: number): [AccessorDeclaration[], number] {
+  if (tokens[pos]?.text === "=>") {
+    return [[{ kind: "get", modifiers: [] }], skipMemberBody(tokens, pos)];
+  }
+  if (tokens[pos]?.text !== "{") {
+    return [[], skipMemberBody(tokens, pos)];
+  }
+
+  const accessors: AccessorDeclaration[] = [];
+  pos++;
+  while (pos < tokens.length && tokens[pos].text !== "}") {
+    const header = parseMemberHeader(tokens, pos);
+    pos = header.pos;
+    const keyword = tokens[pos]?.text;
+    if (keyword && ACCESSOR_KINDS.has(keyword)) {
+      accessors.push({
+        kind: keyword as AccessorDeclaration["kind"],
+        modifiers: header.modifiers,
+      });
+      pos = skipMemberBody(tokens, pos + 1);
+    } else {
+      pos++;
+    }
+  }
+  pos++;
+
+  // Auto-property initializer: `{ get; set; } = value;`
+  if (tokens[pos]?.text === "=") {
+    pos = skipMemberBody(tokens, pos);
+  }
+  return [accessors, pos];
+}
+
+/**
+ * Read a member name, which may be qualified by an explicit interface
+ * (`IFoo<T>.Bar`) and followed by method type parameters (`Bar<T>`).
+ */
+function readMemberName(
+  tokens: Token[],
+  pos: number
+): { name: string; explicitInterface: string | null; typeParameters: string | null; pos: number } {
+  const start = pos;
+  let lastNameStart = pos;
+  let typeParameters: string | null = null;
+
+  while (pos < tokens.length && tokens[pos].kind === "word") {
+    lastNameStart = pos;
+    pos++;
+    typeParameters = null;
+    if (tokens[pos]?.text === "<") {
+      const close = skipAngles(tokens, pos);
+      typeParameters = textOf(tokens, pos + 1, close - 1);
+      pos = close;
+    }
+    if (tokens[pos]?.text === "." && tokens[pos + 1]?.kind === "word") {
+      pos++;
+      continue;
+    }
+    break;
+  }
+
+  return {
+    name: tokens[lastNameStart]?.text ?? "",
+    explicitInterface: lastNameStart > start ? textOf(tokens, start, lastNameStart - 1) : null,
+    typeParameters,
+    pos,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Token helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a type reference (`Dictionary<string, List<int>>?`, `(int, string)[]`, `ref readonly T`).
+ * Returns the position after the type, or `pos` if no type starts there.
+ */
+function readType(tokens: Token[], pos: number): number {
+  const start = pos;
+  if (tokens[pos]?.text === "ref") {
+    pos++;
+    if (tokens[pos]?.text === "readonly") {
+      pos++;
+    }
+  }
+
+  if (tokens[pos]?.text === "(") {
+    pos = skipBalanced(tokens, pos);
+  } else if (tokens[pos]?.kind === "word") {
+    pos++;
+    while (pos < tokens.length) {
+      const text = tokens[pos].text;
+      if ((text === "." || text === "::") && tokens[pos + 1]?.kind === "word") {
+        pos += 2;
+      } else if (text === "<") {
+        const close = skipAngles(tokens, pos);
+        if (close === pos) {
+          break;
+        }
+        pos = close;
+      } else {
+        break;
+      }
+    }
+  } else {
+    return start;
+  }
+
+  while (pos < tokens.length) {
+    const text = tokens[pos].text;
+    if (text === "?" || text === "*") {
+      pos++;
+    } else if (text === "[" && (tokens[pos + 1]?.text === "]" || tokens[pos + 1]?.text === ",")) {
+      pos = skipBalanced(tokens, pos);
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
+
+/**
+ * Skip a generic argument list starting at `<`. Returns `pos` if it is not one.
+ */
+function skipAngles(tokens: Token[], pos: number): number {
+  let depth = 0;
+  for (let i = pos; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    if (text === "<") {
+      depth++;
+    } else if (text === ">") {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    } else if (text === "(") {
+      i = skipBalanced(tokens, i) - 1;
+    } else if (text === ";" || text === "{" || text === "}" || text === "=>" || text === ")") {
+      return pos;
+    }
+  }
+  return pos;
+}
+
+const CLOSERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+/**
+ * Skip a balanced (), [] or {} group starting at `pos`. Returns the position after the closer.
+ */
+function skipBalanced(tokens: Token[], pos: number): number {
+  const stack: string[] = [];
+  for (let i = pos; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    if (CLOSERS[text]) {
+      stack.push(CLOSERS[text]);
+    } else if (text === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Skip one expression element: a balanced group or a single token
+ */
+function skipExpression(tokens: Token[], pos: number): number {
+  return CLOSERS[tokens[pos].text] ? skipBalanced(tokens, pos) : pos + 1;
+}
+
+/**
+ * Skip a member body: a block, an expression body ending in `;`, or a bare `;`
+ */
+function skipMemberBody(tokens: Token[], pos: number): number {
+  while (pos < tokens.length) {
+    const text = tokens[pos].text;
+    if (text === ";") {
+      return pos + 1;
+    }
+    if (text === "{") {
+      return skipBalanced(tokens, pos);
+    }
+    if (text === "=>" || text === "=") {
+      // Expression body or initializer runs to the next top-level semicolon
+      pos++;
+      while (pos < tokens.length && tokens[pos].text !== ";" && tokens[pos].text !== "}") {
+        pos = skipExpression(tokens, pos);
+      }
+      return tokens[pos]?.text === ";" ? pos + 1 : pos;
+    }
+    if (text === "}") {
+      return pos;
+    }
+    pos = skipExpression(tokens, pos);
+  }
+  return pos;
+}
+
+/**
+ * Skip an unrecognized statement or declaration
+ */
+function skipStatement(tokens: Token[], pos: number): number {
+  while (pos < tokens.length) {
+    const text = tokens[pos].text;
+    if (text === ";") {
+      return pos + 1;
+    }
+    if (text === "{") {
+      return skipBalanced(tokens, pos);
+    }
+    if (text === "}") {
+      return pos;
+    }
+    pos = skipExpression(tokens, pos);
+  }
+  return pos;
+}
+
+/**
+ * Split tokens[from, to) at top-level commas
+ */
+function splitTopLevel(tokens: Token[], from: number, to: number): [number, number][] {
+  const parts: [number, number][] = [];
+  let partStart = from;
+  let angleDepth = 0;
+  for (let i = from; i < to; i++) {
+    const text = tokens[i].text;
+    if (CLOSERS[text]) {
+      i = skipBalanced(tokens, i) - 1;
+    } else if (text === "<") {
+      angleDepth++;
+    } else if (text === ">") {
+      angleDepth--;
+    } else if (text === "," && angleDepth <= 0) {
+      parts.push([partStart, i]);
+      partStart = i + 1;
+    }
+  }
+  if (partStart < to) {
+    parts.push([partStart, to]);
+  }
+  return parts;
+}
+
+/**
+ * Rebuild source text for tokens[from, to), collapsing any trivia to one space
+ */
+function textOf(tokens: Token[], from: number, to: number): string {
+  let text = "";
+  for (let i = from; i < to && i < tokens.length; i++) {
+    if (i > from && tokens[i].start > tokens[i - 1].end) {
+      text += " ";
+    }
+    text += tokens[i].text;
+  }
+  return text;
+}
@@ -0,0 +1,242 @@
+/**
+ * C# tokenizer that strips trivia (whitespace, comments, preprocessor directives)
+ */
+
+export type TokenKind = "word" | "number" | "string" | "char" | "punct";
+
+/**
+ * Represents a single significant token and its offsets in the source
+ */
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Tokenize C# source code.
+ *
+ * Comments are dropped, string and character literals become single tokens and
+ * preprocessor directives are skipped. For `#if` / `#elif` / `#else` chains only
+ * the first branch is kept (or the next one when the condition is literally
+ * `false` or `0`), so conditional code never yields duplicate declarations.
+ */
+export function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  // One entry per open #if: whether a branch has been taken, and whether we are in it
+  const conditionals: { taken: boolean; active: boolean }[] = [];
+  const isActive = () => conditionals.every((c) => c.active);
+  let atLineStart = true;
+  let i = 0;
+
+  while (i < code.length) {
+    const ch = code[i];
+
+    if (ch === "\n") {
+      atLineStart = true;
+      i++;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "#" && atLineStart) {
+      const lineEnd = findLineEnd(code, i);
+      handleDirective(code.substring(i + 1, lineEnd).trim(), conditionals);
+      i = lineEnd;
+      continue;
+    }
+    atLineStart = false;
+
+    if (ch === "/" && code[i + 1] === "/") {
+      i = findLineEnd(code, i);
+      continue;
+    }
+    if (ch === "/" && code[i + 1] === "*") {
+      const close = code.indexOf("*/", i + 2);
+      i = close === -1 ? code.length : close + 2;
+      continue;
+    }
+
+    const start = i;
+    let kind: TokenKind;
+    if (isStringStart(code, i)) {
+      kind = "string";
+      i = skipString(code, i);
+    } else if (ch === "'") {
+      kind = "char";
+      i = skipCharLiteral(code, i);
+    } else if (isIdentifierStart(code, i)) {
+      kind = "word";
+      i++;
+      while (i < code.length && isIdentifierChar(code[i])) {
+        i++;
+      }
+    } else if (/[0-9]/.test(ch) || ch === "." && /[0-9]/.test(code[i + 1] ?? "")) {
+      kind = "number";
+      i++;
+      while (i < code.length && /[\w.]/.test(code[i])) {
+        i++;
+      }
+    } else {
+      kind = "punct";
+      // Only "=>" and "::" are combined; ">>" must stay split for nested generics
+      const pair = code.substring(i, i + 2);
+      i += pair === "=>" || pair === "::" ? 2 : 1;
+    }
+
+    if (isActive()) {
+      tokens.push({ kind, text: code.substring(start, i), start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function findLineEnd(code: string, from: number): number {
+  const newline = code.indexOf("\n", from);
+  return newline === -1 ? code.length : newline;
+}
+
+function handleDirective(
+  directive: string,
+  conditionals: { taken: boolean; active: boolean }[]
+): void {
+  const [keyword] = directive.split(/\s+/, 1);
+  const condition = directive.substring(keyword.length).replace(/\/\/.*$/, "").trim();
+  const isFalse = condition === "false" || condition === "0";
+  const current = conditionals[conditionals.length - 1];
+
+  switch (keyword) {
+    case "if":
+      conditionals.push({ taken: !isFalse, active: !isFalse });
+      break;
+    case "elif":
+      if (current) {
+        current.active = !current.taken && !isFalse;
+        current.taken = current.taken || current.active;
+      }
+      break;
+    case "else":
+      if (current) {
+        current.active = !current.taken;
+        current.taken = true;
+      }
+      break;
+    case "endif":
+      conditionals.pop();
+      break;
+  }
+}
+
+function isIdentifierStart(code: string, i: number): boolean {
+  const ch = code[i];
+  if (ch === "@") {
+    return isIdentifierChar(code[i + 1] ?? "");
+  }
+  return isIdentifierChar(ch) && !/[0-9]/.test(ch);
+}
+
+function isIdentifierChar(ch: string): boolean {
+  return /[\wÀ-￿]/.test(ch);
+}
+
+function isStringStart(code: string, i: number): boolean {
+  let j = i;
+  while (code[j] === "$" || code[j] === "@") {
+    j++;
+  }
+  return code[j] === '"' && j - i <= 3;
+}
+
+/**
+ * Skip a string literal of any flavour: regular, verbatim, interpolated or raw
+ */
+function skipString(code: string, i: number): number {
+  let dollars = 0;
+  let verbatim = false;
+  while (code[i] === "$" || code[i] === "@") {
+    if (code[i] === "$") {
+      dollars++;
+    } else {
+      verbatim = true;
+    }
+    i++;
+  }
+
+  // Raw string literal: three or more quotes, closed by the same number of quotes
+  let quotes = 0;
+  while (code[i + quotes] === '"') {
+    quotes++;
+  }
+  if (quotes >= 3) {
+    const delimiter = '"'.repeat(quotes);
+    const close = code.indexOf(delimiter, i + quotes);
+    return close === -1 ? code.length : close + quotes;
+  }
+
+  i++; // opening quote
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"') {
+      if (verbatim && code[i + 1] === '"') {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    if (ch === "\\" && !verbatim) {
+      i += 2;
+      continue;
+    }
+    if (ch === "\n" && !verbatim) {
+      return i;
+    }
+    if (ch === "{" && dollars > 0) {
+      if (code[i + 1] === "{") {
+        i += 2;
+        continue;
+      }
+      i = skipInterpolation(code, i + 1);
+      continue;
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Skip an interpolation hole, which may itself contain strings and braces
+ */
+function skipInterpolation(code: string, i: number): number {
+  let depth = 1;
+  while (i < code.length && depth > 0) {
+    const ch = code[i];
+    if (isStringStart(code, i)) {
+      i = skipString(code, i);
+      continue;
+    }
+    if (ch === "'") {
+      i = skipCharLiteral(code, i);
+      continue;
+    }
+    if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+    }
+    i++;
+  }
+  return i;
+}
+
+function skipCharLiteral(code: string, i: number): number {
+  i++;
+  while (i < code.length && code[i] !== "'" && code[i] !== "\n") {
+    i += code[i] === "\\" ? 2 : 1;
+  }
+  return Math.min(i + 1, code.length);
+}
@@ -0,0 +1,237 @@
+/**
+ * Code formatting shared by every generator, driven by .editorconfig and editor settings
+ */
+import * as path from "path";
+
+/**
+ * Layout rules applied to generated C# code
+ */
+export interface CodeFormat {
+  indentStyle: "space" | "tab";
+  /** Columns per indentation level when indenting with spaces */
+  indentSize: number;
+  endOfLine: "\n" | "\r\n";
+  /** Put `{` on its own line (Allman style), as `csharp_new_line_before_open_brace` */
+  newLineBeforeOpenBrace: boolean;
+  insertFinalNewline: boolean;
+}
+
+export const DEFAULT_CODE_FORMAT: CodeFormat = {
+  indentStyle: "space",
+  indentSize: 4,
+  endOfLine: "\n",
+  newLineBeforeOpenBrace: true,
+  insertFinalNewline: true,
+};
+
+/**
+ * Contents of an .editorconfig file and the directory it lives in
+ */
+export interface EditorConfigFile {
+  directory: string;
+  content: string;
+}
+
+/**
+ * The text of one indentation level
+ */
+export function getIndentUnit(format: CodeFormat): string {
+  return format.indentStyle === "tab" ? "\t" : " ".repeat(format.indentSize);
+}
+
+/**
+ * Lay out a braced block: the header line, the braces and the already indented body lines
+ */
+export function formatBlock(
+  header: string,
+  body: string[],
+  indent: string,
+  format: CodeFormat
+): string[] {
+  const opening = format.newLineBeforeOpenBrace
+    ? [`${indent}${header}`, `${indent}{`]
+    : [`${indent}${header} {`];
+  return [...opening, ...body, `${indent}}`];
+}
+
+/**
+ * Join lines with the configured line ending
+ */
+export function joinLines(lines: string[], format: CodeFormat): string {
+  return lines.join(format.endOfLine);
+}
+
+/**
+ * Join the lines of a whole file, adding the final newline when configured
+ */
+export function formatFile(lines: string[], format: CodeFormat): string {
+  const text = joinLines(lines, format);
+  return format.insertFinalNewline ? `${text}${format.endOfLine}` : text;
+}
+
+/**
+ * Properties that apply to a file, from .editorconfig files ordered nearest first.
+ * Files above one declaring `root = true` are ignored; nearer files win.
+ */
+export function getEditorConfigProperties(
+  files: EditorConfigFile[],
+  filePath: string
+): Record<string, string> {
+  const applicable: EditorConfigFile[] = [];
+  for (const file of files) {
+    applicable.push(file);
+    if (parseEditorConfig(file.content).root) {
+      break;
+    }
+  }
+
+  const properties: Record<string, string> = {};
+  for (const file of applicable.reverse()) {
+    const relativePath = toPosixPath(path.relative(file.directory, filePath));
+    for (const section of parseEditorConfig(file.content).sections) {
+      if (matchesSection(section.glob, relativePath)) {
+        Object.assign(properties, section.properties);
+      }
+    }
+  }
+  return properties;
+}
+
+/**
+ * Combine .editorconfig properties with fallbacks (usually the editor settings)
+ */
+export function resolveCodeFormat(
+  properties: Record<string, string>,
+  fallback: Partial<CodeFormat> = {}
+): CodeFormat {
+  const format: CodeFormat = { ...DEFAULT_CODE_FORMAT, ...fallback };
+
+  if (properties.indent_style === "space" || properties.indent_style === "tab") {
+    format.indentStyle = properties.indent_style;
+  }
+
+  const size =
+    properties.indent_size === "tab" ? properties.tab_width : properties.indent_size ?? properties.tab_width;
+  if (size && /^\d+$/.test(size) && Number(size) > 0) {
+    format.indentSize = Number(size);
+  }
+
+  if (properties.end_of_line === "lf") {
+    format.endOfLine = "\n";
+  } else if (properties.end_of_line === "crlf") {
+    format.endOfLine = "\r\n";
+  }
+
+  if (properties.insert_final_newline === "true" || properties.insert_final_newline === "false") {
+    format.insertFinalNewline = properties.insert_final_newline === "true";
+  }
+
+  const newLineBeforeBrace = properties.csharp_new_line_before_open_brace;
+  if (newLineBeforeBrace) {
+    // "all", "none" or a list of kinds such as "types, methods"
+    format.newLineBeforeOpenBrace = newLineBeforeBrace.split(":")[0].trim() !== "none";
+  }
+
+  return format;
+}
+
+interface EditorConfigSection {
+  glob: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * Parse the INI-style .editorconfig content; keys and values are lower-cased
+ */
+function parseEditorConfig(content: string): { root: boolean; sections: EditorConfigSection[] } {
+  let root = false;
+  const sections: EditorConfigSection[] = [];
+  let current: EditorConfigSection | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+
+    const header = line.match(/^\[(.*)\]$/);
+    if (header) {
+      current = { glob: header[1], properties: {} };
+      sections.push(current);
+      continue;
+    }
+
+    const separator = line.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim().toLowerCase();
+
+    if (current) {
+      current.properties[key] = value;
+    } else if (key === "root") {
+      root = value === "true";
+    }
+  }
+
+  return { root, sections };
+}
+
+/**
+ * Whether a section glob matches a path relative to the .editorconfig directory.
+ * Globs without a slash match the file name in any subdirectory.
+ */
+function matchesSection(glob: string, relativePath: string): boolean {
+  if (relativePath.startsWith("../")) {
+    return false;
+  }
+
+  let pattern = glob;
+  if (!pattern.includes("/")) {
+    pattern = `**/${pattern}`;
+  } else if (pattern.startsWith("/")) {
+    pattern = pattern.substring(1);
+  }
+  return globToRegExp(pattern).test(relativePath);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "{") {
+      const close = glob.indexOf("}", i);
+      if (close === -1) {
+        source += "\\{";
+        continue;
+      }
+      const options = glob.substring(i + 1, close).split(",");
+      source += `(?:${options.map((o) => globToRegExp(o).source.slice(1, -1)).join("|")})`;
+      i = close;
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      source += `[${glob.substring(i + 1, close).replace(/^!/, "^")}]`;
+      i = close;
+    } else {
+      source += ch.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
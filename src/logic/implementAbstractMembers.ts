@@ -0,0 +1,129 @@
+/**
+ * Logic for overriding the abstract members of base classes
+ */
+
+import {
+  BaseClassDeclaration,
+  toMethodInfo,
+  toPropertyInfo,
+  toEventInfo,
+  toIndexerInfo,
+  substituteTypeParameters,
+  getTypeParameterNames,
+  PropertyInfo,
+  PropertyAccessor,
+} from "./csharpParser";
+import { AccessorDeclaration, MemberDeclaration, TypeDeclaration, parseParameterList } from "./csharpSyntax";
+import { InterfaceMembers } from "./implementInterface";
+
+const ACCESS_MODIFIERS = ["public", "protected", "internal", "private"];
+
+/**
+ * The abstract methods, properties, events and indexers of a base-class chain (nearest base first)
+ * that neither the class nor a class between it and the declaring one overrides.
+ * Members are written with the type arguments the class passes to its bases.
+ */
+export function getAbstractMembers(classParts: TypeDeclaration[], chain: BaseClassDeclaration[]): InterfaceMembers {
+  const members: InterfaceMembers = { methods: [], properties: [], events: [], indexers: [] };
+  const overridden = new Set(
+    classParts.flatMap((t) => t.members).filter(isOverride).map((m) => getMemberKey(m, new Map()))
+  );
+
+  for (const base of chain) {
+    for (const member of base.type.members) {
+      const key = getMemberKey(member, base.typeArguments);
+      if (!member.modifiers.includes("abstract") || overridden.has(key)) {
+        continue;
+      }
+      // An `abstract override` is listed once, by the class nearest to the derived one
+      overridden.add(key);
+      addMember(members, member, base.typeArguments);
+    }
+    // Overrides in this class implement what classes further up declare abstract
+    base.type.members.filter(isOverride).forEach((m) => overridden.add(getMemberKey(m, base.typeArguments)));
+  }
+  return members;
+}
+
+/**
+ * The base class as the derived class names it, e.g. `EntityService<Order>`
+ */
+export function getBaseClassName(base: BaseClassDeclaration): string {
+  const typeArguments = getTypeParameterNames(base.type.typeParameters).map(
+    (name) => base.typeArguments.get(name) ?? name
+  );
+  return typeArguments.length > 0 ? `${base.type.name}<${typeArguments.join(", ")}>` : base.type.name;
+}
+
+function isOverride(member: MemberDeclaration): boolean {
+  return member.modifiers.includes("override");
+}
+
+/**
+ * Add an abstract member with its access modifiers and the derived class's type arguments
+ */
+function addMember(members: InterfaceMembers, member: MemberDeclaration, typeArguments: Map<string, string>): void {
+  const substitute = (text: string) => substituteTypeParameters(text, typeArguments);
+  const accessModifier = member.modifiers.filter((m) => ACCESS_MODIFIERS.includes(m)).join(" ") || "private";
+
+  if (member.kind === "method") {
+    const info = toMethodInfo(member);
+    members.methods.push({
+      ...info,
+      returnType: substitute(info.returnType),
+      parameters: substitute(info.parameters),
+      accessModifier,
+    });
+  } else if (member.kind === "property") {
+    members.properties.push({
+      ...toPropertyInfo(member),
+      ...getOverrideAccessors(member.accessors),
+      type: substitute(member.type),
+      accessModifier,
+    });
+  } else if (member.kind === "event") {
+    members.events.push({ ...toEventInfo(member), type: substitute(member.type), accessModifier });
+  } else if (member.kind === "indexer") {
+    members.indexers?.push({
+      ...toIndexerInfo(member),
+      ...getOverrideAccessors(member.accessors),
+      type: substitute(member.type),
+      parameters: substitute(member.parameters),
+      accessModifier,
+    });
+  }
+}
+
+/**
+ * Every accessor an override has to implement, with the access modifiers it has to repeat;
+ * `{ get; protected set; }` is not get-only here as it is to callers
+ */
+function getOverrideAccessors(
+  accessors: AccessorDeclaration[]
+): Pick<PropertyInfo, "accessors" | "accessorModifiers"> {
+  const overridden = accessors.filter(
+    (a): a is AccessorDeclaration & { kind: PropertyAccessor } =>
+      a.kind === "get" || a.kind === "set" || a.kind === "init"
+  );
+  const accessorModifiers: Partial<Record<PropertyAccessor, string>> = {};
+  for (const accessor of overridden) {
+    const modifiers = accessor.modifiers.filter((m) => ACCESS_MODIFIERS.includes(m));
+    if (modifiers.length > 0) {
+      accessorModifiers[accessor.kind] = modifiers.join(" ");
+    }
+  }
+  return { accessors: overridden.map((a) => a.kind), accessorModifiers };
+}
+
+/**
+ * Members override each other when kind, name and parameter types match
+ */
+function getMemberKey(member: MemberDeclaration, typeArguments: Map<string, string>): string {
+  if (member.kind !== "method" && member.kind !== "indexer") {
+    return `${member.kind} ${member.name}`;
+  }
+  const parameterTypes = parseParameterList(member.parameters).map((p) =>
+    [...p.modifiers.filter((m) => m !== "params"), substituteTypeParameters(p.type, typeArguments)].join(" ")
+  );
+  return `${member.kind} ${member.name}(${parameterTypes.join(",").replace(/\s+/g, "")})`;
+}
@@ -2,7 +2,40 @@
  * Logic for implementing interface stubs in a class
  */
 
-import { MethodInfo, PropertyInfo, EventInfo } from "./csharpParser";
+import {
+  MethodInfo,
+  PropertyInfo,
+  EventInfo,
+  IndexerInfo,
+  PropertyAccessor,
+  toMethodInfo,
+  toPropertyInfo,
+  toEventInfo,
+  toIndexerInfo,
+  findInterfaceType,
+  findTargetType,
+  getPositionalProperties,
+  getFields,
+  PartialDeclaration,
+  parseTypeReference,
+  getTypeParameterNames,
+  substituteTypeParameters,
+} from "./csharpParser";
+import { MemberDeclaration, TypeDeclaration, parseCSharp, getAllTypes, parseParameterList } from "./csharpSyntax";
+import {
+  TextChange,
+  applyTextChanges,
+  detectLineEnding,
+  getLineIndent,
+  getLineStart,
+  getLineEnd,
+} from "./textChanges";
+import { CodeFormat, DEFAULT_CODE_FORMAT, formatBlock, getIndentUnit } from "./formatting";
+
+/**
+ * Where generated stubs go in a class
+ */
+export type StubPlacement = "endOfClass" | "afterSameKind" | "region";
 
 /**
  * Represents all members of an interface
@@ -11,118 +44,511 @@ export interface InterfaceMembers {
   methods: MethodInfo[];
   properties: PropertyInfo[];
   events: EventInfo[];
+  /** Indexers, `this[...]`; none when omitted */
+  indexers?: IndexerInfo[];
 }
 
 /**
  * Parse an interface file and extract all its members
  */
-export function parseInterfaceMembers(interfaceCode: string): InterfaceMembers {
+export function parseInterfaceMembers(
+  interfaceCode: string,
+  interfaceName?: string
+): InterfaceMembers {
+  const interfaceType = findInterfaceType(interfaceCode, interfaceName);
+
+  if (!interfaceType) {
+    return { methods: [], properties: [], events: [] };
+  }
+  const members = getInterfaceMembers(interfaceType);
+  return interfaceName ? substituteTypeArguments(members, interfaceType, interfaceName) : members;
+}
+
+/**
+ * Write interface members in terms of the type arguments of a reference to the interface,
+ * e.g. `T Find(int id)` of `IRepository<T>` becomes `Customer Find(int id)` for `IRepository<Customer>`
+ */
+export function substituteTypeArguments(
+  members: InterfaceMembers,
+  interfaceType: TypeDeclaration,
+  interfaceReference: string
+): InterfaceMembers {
+  const typeArguments = parseTypeReference(interfaceReference).typeArguments;
+  const typeParameters = getTypeParameterNames(interfaceType.typeParameters);
+  if (typeArguments.length !== typeParameters.length) {
+    return members;
+  }
+  const map = new Map(typeParameters.map((name, i) => [name, typeArguments[i]]));
+  const substitute = (text: string) => substituteTypeParameters(text, map);
+
+  return {
+    methods: members.methods.map((method) => {
+      // A method's own type parameters hide the interface's
+      const own = new Set(getTypeParameterNames(method.genericParams));
+      const methodMap = new Map([...map].filter(([name]) => !own.has(name)));
+      return {
+        ...method,
+        returnType: substituteTypeParameters(method.returnType, methodMap),
+        parameters: substituteTypeParameters(method.parameters, methodMap),
+        constraints: method.constraints && substituteTypeParameters(method.constraints, methodMap),
+      };
+    }),
+    properties: members.properties.map((property) => ({ ...property, type: substitute(property.type) })),
+    events: members.events.map((event) => ({ ...event, type: substitute(event.type) })),
+    indexers: members.indexers?.map((indexer) => ({
+      ...indexer,
+      type: substitute(indexer.type),
+      parameters: substitute(indexer.parameters),
+    })),
+  };
+}
+
+/**
+ * The members of interface declarations a class has to implement; a partial interface
+ * passes all of its declarations
+ */
+export function getInterfaceMembers(...declarations: TypeDeclaration[]): InterfaceMembers {
   const methods: MethodInfo[] = [];
   const properties: PropertyInfo[] = [];
   const events: EventInfo[] = [];
+  const indexers: IndexerInfo[] = [];
+
+  for (const member of declarations.flatMap((d) => d.members)) {
+    // Static members without `abstract` or `virtual` are implemented by the interface itself
+    if (member.modifiers.includes("static") && !member.modifiers.some((m) => m === "abstract" || m === "virtual")) {
+      continue;
+    }
+    if (member.kind === "method") {
+      methods.push(toMethodInfo(member));
+    } else if (member.kind === "property") {
+      properties.push(toPropertyInfo(member));
+    } else if (member.kind === "event") {
+      events.push(toEventInfo(member));
+    } else if (member.kind === "indexer") {
+      indexers.push(toIndexerInfo(member));
+    }
+  }
+
+  return { methods, properties, events, indexers };
+}
+
+/**
+ * Members of one interface in the hierarchy being implemented
+ */
+export interface InterfaceMemberGroup {
+  /** The interface as the class sees it, e.g. `IRepository<Order>` */
+  interfaceName: string;
+  members: InterfaceMembers;
+  /** The group holds the abstract members of this base class, implemented as overrides */
+  isBaseClass?: boolean;
+}
+
+/**
+ * Framework interfaces a workspace interface commonly inherits from
+ */
+const FRAMEWORK_INTERFACES = `namespace System
+{
+    public interface IDisposable { void Dispose(); }
+    public interface IAsyncDisposable { ValueTask DisposeAsync(); }
+    public interface ICloneable { object Clone(); }
+    public interface IComparable { int CompareTo(object? obj); }
+    public interface IComparable<in T> { int CompareTo(T? other); }
+    public interface IEquatable<T> { bool Equals(T? other); }
+    public interface IFormattable { string ToString(string? format, IFormatProvider? formatProvider); }
+}`;
 
-  // Find the interface body - use balanced brace matching
-  const interfaceStartMatch = interfaceCode.match(/interface\s+\w+(?:<[^>]*>)?\s*\{/);
+/**
+ * The declaration of a framework interface such as `IDisposable` or `System.IEquatable<Order>`
+ */
+export function findFrameworkInterface(reference: string): TypeDeclaration | undefined {
+  const { name, typeArguments } = parseTypeReference(reference);
+  const simpleName = name.replace(/^(global::)?System\./, "");
+  return getAllTypes(parseCSharp(FRAMEWORK_INTERFACES)).find(
+    (t) => t.name === simpleName && getTypeParameterNames(t.typeParameters).length === typeArguments.length
+  );
+}
 
-  if (!interfaceStartMatch) {
-    return { methods, properties, events };
+/**
+ * The members of one interface of a hierarchy with the type arguments it is referenced with.
+ * Interfaces outside the workspace have no declarations; known framework interfaces are filled in.
+ */
+export function getInterfaceMemberGroup(
+  interfaceName: string,
+  declarations: TypeDeclaration[]
+): InterfaceMemberGroup | null {
+  const frameworkInterface = declarations.length === 0 ? findFrameworkInterface(interfaceName) : undefined;
+  const types = frameworkInterface ? [frameworkInterface] : declarations;
+  if (types.length === 0) {
+    return null;
   }
+  return {
+    interfaceName,
+    members: substituteTypeArguments(getInterfaceMembers(...types), types[0], interfaceName),
+  };
+}
+
+/**
+ * Drop members an earlier interface of the hierarchy already declares with the same signature
+ */
+export function removeDuplicateInterfaceMembers(groups: InterfaceMemberGroup[]): InterfaceMemberGroup[] {
+  const seen = new Set<string>();
+  const isNew = (key: string) => !seen.has(key) && !!seen.add(key);
+
+  return groups.map((group) => ({
+    ...group,
+    members: {
+      methods: group.members.methods.filter((m) => isNew(`method ${m.name}(${getParameterTypes(m.parameters)})`)),
+      properties: group.members.properties.filter((p) => isNew(`property ${p.name}`)),
+      events: group.members.events.filter((e) => isNew(`event ${e.name}`)),
+      indexers: group.members.indexers?.filter((i) => isNew(`indexer [${getParameterTypes(i.parameters)}]`)),
+    },
+  }));
+}
 
-  // Find the matching closing brace
-  const startIndex = interfaceStartMatch.index! + interfaceStartMatch[0].length;
-  let braceCount = 1;
-  let endIndex = startIndex;
+/**
+ * What stub bodies do: throw `NotImplementedException`, return `default`,
+ * or do nothing, returning completed tasks and empty values
+ */
+export type StubBody = "throw" | "default" | "noop";
 
-  for (let i = startIndex; i < interfaceCode.length && braceCount > 0; i++) {
-    if (interfaceCode[i] === '{') {
-      braceCount++;
-    } else if (interfaceCode[i] === '}') {
-      braceCount--;
-    }
-    if (braceCount === 0) {
-      endIndex = i;
+/**
+ * How stubs implement the interface
+ */
+export interface StubOptions {
+  /** Implement explicitly for this interface, e.g. `IRepository<Order>` */
+  explicitInterface?: string;
+  /** Forward to this field or primary constructor parameter instead of throwing */
+  delegateTo?: string;
+  /** Body of members that are not forwarded; throw by default */
+  body?: StubBody;
+  /** Store explicitly implemented properties and events in a private field instead of throwing */
+  backingFields?: boolean;
+  /** Override abstract members of a base class, keeping their access modifiers */
+  override?: boolean;
+  /** Names the class already uses; backing fields avoid them and add their own as they are generated */
+  usedNames?: Set<string>;
+}
+
+const THROW_STATEMENT = "throw new NotImplementedException();";
+
+/**
+ * Generate a method stub implementation
+ */
+export function generateMethodStub(
+  method: MethodInfo,
+  indent: string = "    ",
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  options: StubOptions = {}
+): string {
+  const { explicitInterface } = options;
+  const generic = method.genericParams ? `<${method.genericParams}>` : "";
+  const name = qualifiedName(method.name, explicitInterface);
+  const delegateTo = method.isStatic ? undefined : options.delegateTo;
+  const body = options.body ?? "throw";
+
+  let statements: string[];
+  if (delegateTo) {
+    // Tasks are returned as they are, without an async state machine
+    const call = `${delegateTo}.${method.name}${generic}(${getArguments(method.parameters)});`;
+    statements = [method.returnType === "void" ? call : `return ${call}`];
+  } else if (body === "throw") {
+    statements = [THROW_STATEMENT];
+  } else if (method.returnType === "void") {
+    statements = [];
+  } else if (body === "default") {
+    statements = ["return default;"];
+  } else {
+    statements = [getNoOpStatement(method.returnType)];
+  }
+
+  // A method that returns has to assign its out parameters first
+  if (!delegateTo && body !== "throw") {
+    const outParameters = parseParameterList(method.parameters).filter((p) => p.modifiers.includes("out"));
+    statements = [...outParameters.map((p) => `${p.name} = default;`), ...statements];
+  }
+
+  // An empty async stream is an iterator, which has to be async
+  const isIterator = statements.includes("yield break;");
+  const modifiers = `${accessModifier(method, options)}${staticModifier(method)}${isIterator ? "async " : ""}`;
+  // Explicit implementations and overrides take the constraints of the member they implement
+  const constraints = method.constraints && !explicitInterface && !options.override ? ` ${method.constraints}` : "";
+  const signature = `${modifiers}${method.returnType} ${name}${generic}(${method.parameters})${constraints}`;
+  const bodyIndent = `${indent}${getIndentUnit(format)}`;
+
+  // Lines are joined with "\n"; insertion converts them to the target file's line ending
+  return formatBlock(signature, statements.map((line) => `${bodyIndent}${line}`), indent, format).join("\n");
+}
+
+/**
+ * Generate a property stub implementation with the accessors the interface declares.
+ * Explicit implementations cannot be auto-properties; they throw or use a backing field.
+ */
+export function generatePropertyStub(
+  property: PropertyInfo,
+  indent: string = "    ",
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  options: StubOptions = {}
+): string {
+  const { explicitInterface } = options;
+  // Overrides of a required property have to be required as well
+  const required = options.override && property.isRequired ? "required " : "";
+  const name = qualifiedName(property.name, explicitInterface);
+  const declaration = `${staticModifier(property)}${required}${property.type} ${name}`;
+  const declared = property.accessors ?? ["get", "set"];
+  const delegateTo = property.isStatic ? undefined : options.delegateTo;
+  // An auto-property cannot be set-only; a private getter keeps it write-only to callers,
+  // but an override cannot add accessors
+  if (!explicitInterface && !delegateTo && (declared.includes("get") || !options.override)) {
+    const accessors = declared.map((accessor) => `${accessorModifier(property, accessor)}${accessor}`);
+    if (!declared.includes("get")) {
+      accessors.unshift("private get");
     }
+    return `${indent}${accessModifier(property, options)}${declaration} { ${accessors.join("; ")}; }`;
   }
 
-  const interfaceBody = interfaceCode.substring(startIndex, endIndex);
+  const field =
+    options.backingFields && !delegateTo ? getBackingFieldName(property.name, options.usedNames) : undefined;
+  const target = delegateTo ? `${delegateTo}.${property.name}` : field;
+  const accessors = declared.map((accessor) => {
+    // An init-only property of the inner object cannot be assigned outside its initializer
+    const forwarded = target && !(delegateTo && accessor === "init");
+    const line = forwarded
+      ? `${accessor} => ${accessor === "get" ? target : `${target} = value`};`
+      : getAccessorStub(accessor, property.type, options.body);
+    return `${indent}${getIndentUnit(format)}${accessorModifier(property, accessor)}${line}`;
+  });
+  const lines = formatBlock(`${accessModifier(property, options)}${declaration}`, accessors, indent, format);
+  return [...getBackingField(field, property, indent), ...lines].join("\n");
+}
 
-  // Parse methods: returnType MethodName(params);
-  // Must have parentheses but NOT have { get (which would be a property)
-  const methodRegex = /([\w<>\[\]?]+)\s+(\w+)\s*(?:<([^>]*)>)?\s*\(([^)]*)\)\s*;/g;
-  let match;
-  while ((match = methodRegex.exec(interfaceBody)) !== null) {
-    methods.push({
-      returnType: match[1],
-      name: match[2],
-      genericParams: match[3] || null,
-      parameters: match[4],
-    });
+/**
+ * Generate an event stub implementation; explicit implementations need `add` and `remove` accessors
+ */
+export function generateEventStub(
+  event: EventInfo,
+  indent: string = "    ",
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  options: StubOptions = {}
+): string {
+  const { explicitInterface } = options;
+  const declaration = `${staticModifier(event)}event ${event.type} ${qualifiedName(event.name, explicitInterface)}`;
+  const delegateTo = event.isStatic ? undefined : options.delegateTo;
+  if (!explicitInterface && !delegateTo) {
+    return `${indent}${accessModifier(event, options)}${declaration};`;
   }
 
-  // Parse properties: Type Name { get; set; } or { get; }
-  // Need to handle whitespace including newlines in interface body
-  const propertyRegex = /([\w<>\[\]?,]+)\s+(\w+)\s*\{\s*get\s*;\s*(?:set\s*;)?\s*\}/g;
-  while ((match = propertyRegex.exec(interfaceBody)) !== null) {
-    properties.push({
-      type: match[1].trim(),
-      name: match[2],
-    });
+  const field =
+    options.backingFields && !delegateTo ? getBackingFieldName(event.name, options.usedNames) : undefined;
+  const target = delegateTo ? `${delegateTo}.${event.name}` : field;
+  const accessors = [
+    ["add", "+="],
+    ["remove", "-="],
+  ].map(([accessor, operator]) => {
+    const line = target
+      ? `${accessor} => ${target} ${operator} value;`
+      : getAccessorStub(accessor, event.type, options.body);
+    return `${indent}${getIndentUnit(format)}${line}`;
+  });
+  const lines = formatBlock(`${accessModifier(event, options)}${declaration}`, accessors, indent, format);
+  // Nothing may have subscribed to the event
+  const fieldType = event.type.endsWith("?") ? event.type : `${event.type}?`;
+  return [...getBackingField(field, { ...event, type: fieldType }, indent), ...lines].join("\n");
+}
+
+/**
+ * Name of the field backing an explicit implementation, e.g. `_orderCount` for `OrderCount`,
+ * numbered (`_orderCount2`) when the class or another stub already uses the name
+ */
+function getBackingFieldName(name: string, usedNames = new Set<string>()): string {
+  const base = `_${name[0].toLowerCase()}${name.slice(1)}`;
+  let field = base;
+  for (let i = 2; usedNames.has(field); i++) {
+    field = `${base}${i}`;
   }
+  usedNames.add(field);
+  return field;
+}
 
-  // Parse events: event EventType EventName;
-  const eventRegex = /event\s+([\w<>\[\].]+)\s+(\w+)\s*;/g;
-  while ((match = eventRegex.exec(interfaceBody)) !== null) {
-    events.push({
-      type: match[1],
-      name: match[2],
-    });
+/**
+ * Declaration of the backing field, on the line above the member it backs
+ */
+function getBackingField(
+  field: string | undefined,
+  member: { type: string; isStatic?: boolean },
+  indent: string
+): string[] {
+  return field ? [`${indent}private ${staticModifier(member)}${member.type} ${field};`] : [];
+}
+
+/**
+ * Accessor of an explicitly implemented property or event that does not forward
+ */
+function getAccessorStub(accessor: string, type: string, body: StubBody = "throw"): string {
+  if (body === "throw") {
+    return `${accessor} => ${THROW_STATEMENT}`;
+  }
+  if (accessor !== "get") {
+    return `${accessor} { }`;
   }
+  return body === "default" ? "get => default;" : `get => ${getEmptyValue(type)};`;
+}
+
+/**
+ * Collection interfaces an empty array satisfies
+ */
+const ARRAY_INTERFACES = new Set([
+  "IEnumerable",
+  "IReadOnlyCollection",
+  "IReadOnlyList",
+  "ICollection",
+  "IList",
+]);
 
-  return { methods, properties, events };
+/**
+ * Collection classes returned as new, empty instances
+ */
+const COLLECTION_CLASSES = new Set([
+  "List",
+  "HashSet",
+  "SortedSet",
+  "Dictionary",
+  "SortedDictionary",
+  "Queue",
+  "Stack",
+  "LinkedList",
+  "Collection",
+]);
+
+/**
+ * The statement of a method stub that does nothing: completed tasks, empty strings,
+ * collections and async streams, and `default` for anything else
+ */
+function getNoOpStatement(returnType: string): string {
+  const { name, typeArguments } = parseTypeReference(returnType);
+  switch (name.split(".").pop()) {
+    case "Task":
+      return typeArguments.length === 0
+        ? "return Task.CompletedTask;"
+        : `return ${getTaskResult(typeArguments[0])};`;
+    case "ValueTask":
+      // A default ValueTask is completed, with a default result
+      return "return default;";
+    case "IAsyncEnumerable":
+      return "yield break;";
+    default:
+      return `return ${getEmptyValue(returnType)};`;
+  }
 }
 
 /**
- * Generate a method stub implementation
+ * A completed task with an empty result; an empty array stands for a collection interface,
+ * so the result type is spelled out then
  */
-export function generateMethodStub(method: MethodInfo, indent: string = "    "): string {
-  const generic = method.genericParams ? `<${method.genericParams}>` : "";
-  const signature = `public ${method.returnType} ${method.name}${generic}(${method.parameters})`;
-
-  // Generate appropriate return statement based on return type
-  let body: string;
-  if (method.returnType === "void") {
-    body = `throw new NotImplementedException();`;
-  } else if (method.returnType === "Task") {
-    body = `throw new NotImplementedException();`;
-  } else if (method.returnType.startsWith("Task<")) {
-    body = `throw new NotImplementedException();`;
-  } else if (method.returnType === "bool") {
-    body = `throw new NotImplementedException();`;
-  } else if (method.returnType === "int" || method.returnType === "long" ||
-             method.returnType === "float" || method.returnType === "double" ||
-             method.returnType === "decimal") {
-    body = `throw new NotImplementedException();`;
-  } else if (method.returnType === "string") {
-    body = `throw new NotImplementedException();`;
-  } else {
-    body = `throw new NotImplementedException();`;
+function getTaskResult(resultType: string): string {
+  const value = getEmptyValue(resultType);
+  return value.startsWith("Array.Empty") && !resultType.endsWith("[]")
+    ? `Task.FromResult<${resultType}>(${value})`
+    : `Task.FromResult(${value})`;
+}
+
+/**
+ * An empty value of a type: `string.Empty`, an empty collection, or `default(T)`
+ */
+function getEmptyValue(type: string): string {
+  const { name, typeArguments } = parseTypeReference(type);
+  const simpleName = name.split(".").pop() ?? name;
+  if (type === "string") {
+    return "string.Empty";
+  }
+  if (type.endsWith("[]") && !type.endsWith("?")) {
+    return `Array.Empty<${type.slice(0, -2)}>()`;
   }
+  if (typeArguments.length === 1 && ARRAY_INTERFACES.has(simpleName)) {
+    return `Array.Empty<${typeArguments[0]}>()`;
+  }
+  if (typeArguments.length > 0 && COLLECTION_CLASSES.has(simpleName)) {
+    return `new ${type}()`;
+  }
+  return `default(${type})`;
+}
 
-  return `${indent}${signature}\n${indent}{\n${indent}    ${body}\n${indent}}`;
+/**
+ * Whether stubs use a type of the `System` namespace: `NotImplementedException` or `Array`
+ */
+export function usesSystemNamespace(stubs: string): boolean {
+  return /\b(NotImplementedException|Array)\b/.test(stubs);
+}
+
+/**
+ * Generate an indexer stub implementation; indexers always need accessor bodies
+ */
+export function generateIndexerStub(
+  indexer: IndexerInfo,
+  indent: string = "    ",
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  options: StubOptions = {}
+): string {
+  const { explicitInterface, delegateTo } = options;
+  const declaration = `${indexer.type} ${qualifiedName("this", explicitInterface)}[${indexer.parameters}]`;
+  const target = delegateTo ? `${delegateTo}[${getArguments(indexer.parameters)}]` : undefined;
+  const accessors = (indexer.accessors ?? ["get", "set"]).map((accessor) => {
+    // An init-only indexer of the inner object cannot be assigned outside its initializer
+    const line =
+      target && accessor !== "init"
+        ? `${accessor} => ${accessor === "get" ? target : `${target} = value`};`
+        : getAccessorStub(accessor, indexer.type, options.body);
+    return `${indent}${getIndentUnit(format)}${accessorModifier(indexer, accessor)}${line}`;
+  });
+  return formatBlock(`${accessModifier(indexer, options)}${declaration}`, accessors, indent, format).join("\n");
 }
 
 /**
- * Generate a property stub implementation
+ * Arguments forwarding a parameter list, e.g. `ref int count, params string[] names` gives `ref count, names`
  */
-export function generatePropertyStub(property: PropertyInfo, indent: string = "    "): string {
-  return `${indent}public ${property.type} ${property.name} { get; set; }`;
+function getArguments(parameters: string): string {
+  return parseParameterList(parameters)
+    .filter((p) => p.name)
+    .map((p) => {
+      const refKind = p.modifiers.find((m) => m === "ref" || m === "out" || m === "in");
+      return refKind ? `${refKind} ${p.name}` : p.name;
+    })
+    .join(", ");
 }
 
 /**
- * Generate an event stub implementation
+ * Implicit implementations are public and overrides keep the access of the member they
+ * override; explicit implementations take no access modifier
  */
-export function generateEventStub(event: EventInfo, indent: string = "    "): string {
-  return `${indent}public event ${event.type} ${event.name};`;
+function accessModifier(member: { accessModifier?: string }, options: StubOptions): string {
+  if (options.explicitInterface) {
+    return "";
+  }
+  return options.override ? `${member.accessModifier ?? "public"} override ` : "public ";
+}
+
+/**
+ * Access modifier an overriding accessor repeats, e.g. `protected ` for `protected set`
+ */
+function accessorModifier(
+  member: { accessorModifiers?: Partial<Record<PropertyAccessor, string>> },
+  accessor: PropertyAccessor
+): string {
+  const modifier = member.accessorModifiers?.[accessor];
+  return modifier ? `${modifier} ` : "";
+}
+
+/**
+ * Member name as implemented, e.g. `IRepository<Order>.Find` for an explicit implementation
+ */
+function qualifiedName(name: string, explicitInterface: string | undefined): string {
+  return explicitInterface ? `${explicitInterface}.${name}` : name;
+}
+
+/**
+ * `static abstract` interface members are implemented by static members
+ */
+function staticModifier(member: { isStatic?: boolean }): string {
+  return member.isStatic ? "static " : "";
 }
 
 /**
@@ -130,124 +556,468 @@ export function generateEventStub(event: EventInfo, indent: string = "    "): st
  */
 export function generateInterfaceStubs(
   members: InterfaceMembers,
-  indent: string = "    "
+  indent: string = "    ",
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  options: StubOptions = {}
 ): string {
   const stubs: string[] = [];
+  // Backing fields of these stubs must not clash with each other either
+  const shared: StubOptions = { ...options, usedNames: options.usedNames ?? new Set() };
 
   // Generate property stubs first (common convention)
   for (const property of members.properties) {
-    stubs.push(generatePropertyStub(property, indent));
+    stubs.push(generatePropertyStub(property, indent, format, shared));
+  }
+
+  // Indexers go with the properties
+  for (const indexer of members.indexers ?? []) {
+    stubs.push(generateIndexerStub(indexer, indent, format, shared));
   }
 
   // Generate event stubs
   for (const event of members.events) {
-    stubs.push(generateEventStub(event, indent));
+    stubs.push(generateEventStub(event, indent, format, shared));
   }
 
   // Generate method stubs
   for (const method of members.methods) {
-    stubs.push(generateMethodStub(method, indent));
+    stubs.push(generateMethodStub(method, indent, format, shared));
   }
 
   return stubs.join("\n\n");
 }
 
 /**
- * Find the position to insert interface implementation stubs in a class
- * Returns the line content just before the closing brace of the class
+ * Generate stubs for an interface hierarchy, grouped by the interface declaring them.
+ * Explicit implementations are qualified with the interface of each group;
+ * base class groups are overridden.
  */
-export function findClassInsertPosition(classCode: string): number {
-  const lines = classCode.split("\n");
+export function generateInterfaceStubGroups(
+  groups: InterfaceMemberGroup[],
+  indent: string = "    ",
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  explicit: boolean = false,
+  options: Omit<StubOptions, "explicitInterface"> = {}
+): string {
+  const shared = { ...options, usedNames: options.usedNames ?? new Set<string>() };
+  return groups
+    .filter((group) => countInterfaceMembers(group.members) > 0)
+    .map((group) =>
+      generateInterfaceStubs(group.members, indent, format, getGroupStubOptions(group, explicit, shared))
+    )
+    .join("\n\n");
+}
 
-  // Find the last closing brace that's likely the class closing brace
-  // We look for a line that is just "}" or "    }" etc.
-  let braceCount = 0;
-  let classStarted = false;
+/**
+ * Stub options for one group: overrides for a base class, otherwise explicit when asked
+ */
+function getGroupStubOptions(
+  group: InterfaceMemberGroup,
+  explicit: boolean,
+  options: Omit<StubOptions, "explicitInterface">
+): StubOptions {
+  if (group.isBaseClass) {
+    return { ...options, override: true };
+  }
+  return { ...options, explicitInterface: explicit ? group.interfaceName : undefined };
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+/**
+ * Number of methods, properties, events and indexers
+ */
+export function countInterfaceMembers(members: InterfaceMembers): number {
+  const indexers = members.indexers?.length ?? 0;
+  return members.methods.length + members.properties.length + members.events.length + indexers;
+}
 
-    // Check if class declaration starts
-    if (/class\s+\w+/.test(line)) {
-      classStarted = true;
-    }
+/**
+ * Find the position to insert interface implementation stubs in a class
+ * Returns the line index of the closing brace of the class
+ */
+export function findClassInsertPosition(classCode: string, offset?: number): number {
+  const classType = findClassWithBody(classCode, offset);
 
-    if (classStarted) {
-      // Count braces
-      for (const char of line) {
-        if (char === "{") {
-          braceCount++;
-        } else if (char === "}") {
-          braceCount--;
-          if (braceCount === 0) {
-            // This is the closing brace of the class
-            return i;
-          }
-        }
-      }
-    }
+  if (!classType) {
+    return -1;
   }
 
-  return -1;
+  return classCode.substring(0, classType.closeBrace).split("\n").length - 1;
 }
 
 /**
- * Insert interface stubs into a class
+ * Indentation for members of the class containing the offset (or the first class).
+ * Uses an existing member's indentation, otherwise one level deeper than the class,
+ * so classes in block-scoped and file-scoped namespaces both line up.
  */
-export function insertInterfaceStubs(
+export function getClassMemberIndent(
   classCode: string,
-  stubs: string
+  offset?: number,
+  format: CodeFormat = DEFAULT_CODE_FORMAT
 ): string {
-  const insertPosition = findClassInsertPosition(classCode);
+  const classType = findTargetType(classCode, offset);
+  if (!classType) {
+    return getIndentUnit(format);
+  }
 
-  if (insertPosition === -1) {
-    return classCode; // Could not find insertion point
+  const firstMember = classType.members[0];
+  if (firstMember && getLineStart(classCode, firstMember.start) > classType.openBrace) {
+    return getLineIndent(classCode, firstMember.start);
   }
+  return `${getLineIndent(classCode, classType.start)}${getIndentUnit(format)}`;
+}
 
-  const lines = classCode.split("\n");
+/**
+ * The class containing the offset (or the first class) if it has a body
+ */
+function findClassWithBody(classCode: string, offset?: number): TypeDeclaration | undefined {
+  const classType = findTargetType(classCode, offset);
+  return classType && classType.closeBrace !== -1 ? classType : undefined;
+}
 
-  // Insert stubs before the closing brace
-  const before = lines.slice(0, insertPosition);
-  const after = lines.slice(insertPosition);
+/**
+ * Compute the edit that inserts interface stubs before the closing brace of a class.
+ * A record declared without a body (`record Person(string Name);`) gets one.
+ * Returns null if no insertion point is found
+ */
+export function getInsertInterfaceStubsChange(
+  classCode: string,
+  stubs: string,
+  offset?: number,
+  format: CodeFormat = DEFAULT_CODE_FORMAT
+): TextChange | null {
+  const eol = detectLineEnding(classCode);
+  const stubText = stubs.replace(/\r?\n/g, eol);
+  const classType = findClassWithBody(classCode, offset);
+
+  if (!classType) {
+    const bodiless = findTargetType(classCode, offset);
+    if (!bodiless || bodiless.openBrace !== -1 || classCode[bodiless.end - 1] !== ";") {
+      return null; // Could not find insertion point
+    }
+    const indent = getLineIndent(classCode, bodiless.start);
+    const opening = format.newLineBeforeOpenBrace ? `${eol}${indent}{` : " {";
+    return {
+      start: bodiless.end - 1,
+      end: bodiless.end,
+      newText: `${opening}${eol}${stubText}${eol}${indent}}`,
+    };
+  }
+  const lineStart = getLineStart(classCode, classType.closeBrace);
+  const beforeBrace = classCode.substring(lineStart, classType.closeBrace);
+
+  if (beforeBrace.trim() !== "") {
+    // Closing brace shares its line with other code: break the line before it
+    const indent = getLineIndent(classCode, classType.start);
+    return {
+      start: classType.closeBrace,
+      end: classType.closeBrace,
+      newText: `${eol}${stubText}${eol}${indent}`,
+    };
+  }
 
   // Add blank line before stubs if there's content
-  const needsBlankLine = before.length > 0 &&
-    before[before.length - 1].trim() !== "" &&
-    before[before.length - 1].trim() !== "{";
+  const previousLine = classCode
+    .substring(getLineStart(classCode, lineStart - 1), lineStart)
+    .trim();
+  const needsBlankLine = previousLine !== "" && previousLine !== "{";
+
+  return {
+    start: lineStart,
+    end: lineStart,
+    newText: `${needsBlankLine ? eol : ""}${stubText}${eol}`,
+  };
+}
+
+/**
+ * Compute the edits that insert stubs for member groups at the configured place:
+ * - `endOfClass`: every group before the closing brace
+ * - `afterSameKind`: properties, events and methods each after the last member of that kind,
+ *   or where the member order (fields, constructors, properties, events, methods) puts them
+ * - `region`: each group before the closing brace in a `#region IFoo Members` block
+ * Returns no edits if no insertion point is found
+ */
+export function getInsertStubGroupsChanges(
+  classCode: string,
+  groups: InterfaceMemberGroup[],
+  offset?: number,
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+  placement: StubPlacement = "endOfClass",
+  explicit: boolean = false,
+  options: Omit<StubOptions, "explicitInterface"> = {}
+): TextChange[] {
+  const indent = getClassMemberIndent(classCode, offset, format);
+  const filled = groups.filter((group) => countInterfaceMembers(group.members) > 0);
+  const shared = { ...options, usedNames: new Set(options.usedNames ?? getClassMemberNames(classCode, offset)) };
+  const generate = (group: InterfaceMemberGroup, members: InterfaceMembers) =>
+    generateInterfaceStubs(members, indent, format, getGroupStubOptions(group, explicit, shared));
+
+  const classType = findClassWithBody(classCode, offset);
+  if (placement === "afterSameKind" && classType && classType.members.length > 0) {
+    const eol = detectLineEnding(classCode);
+    const braceLineEnd = getLineEnd(classCode, classType.openBrace);
+    const bodyOnNextLine = classCode.substring(classType.openBrace + 1, braceLineEnd).trim() === "";
+    const stubsByPosition = new Map<number, string[]>();
+    const stubsAtEnd: string[] = [];
+    for (const kind of ["properties", "events", "methods"] as const) {
+      const stubs = filled
+        .map((group) => ({ group, members: getMembersOfKind(group.members, kind) }))
+        .filter(({ members }) => countInterfaceMembers(members) > 0)
+        .map(({ group, members }) => generate(group, members))
+        .join("\n\n");
+      if (!stubs) {
+        continue;
+      }
+      // Stubs go at the end of the anchor's line, unless the closing brace is on it too
+      const position = getLineEnd(classCode, findStubAnchor(classCode, classType, kind));
+      if (position > classType.closeBrace) {
+        stubsAtEnd.push(stubs);
+      } else {
+        stubsByPosition.set(position, [...(stubsByPosition.get(position) ?? []), stubs]);
+      }
+    }
+
+    const changes = [...stubsByPosition].map(([start, stubs]): TextChange => {
+      const stubText = stubs.join("\n\n").replace(/\r?\n/g, eol);
+      // Stubs ahead of every member follow the opening brace; the rest follow their anchor member
+      const newText = bodyOnNextLine && start === braceLineEnd ? `${eol}${stubText}${eol}` : `${eol}${eol}${stubText}`;
+      return { start, end: start, newText };
+    });
+    const endChange =
+      stubsAtEnd.length > 0 ? getInsertInterfaceStubsChange(classCode, stubsAtEnd.join("\n\n"), offset, format) : null;
+    return endChange ? [...changes, endChange] : changes;
+  }
+
+  const toRegion = (group: InterfaceMemberGroup) =>
+    [`${indent}#region ${group.interfaceName} Members`, generate(group, group.members), `${indent}#endregion`].join("\n\n");
+  const stubs =
+    placement === "region"
+      ? filled.map(toRegion).join("\n\n")
+      : generateInterfaceStubGroups(filled, indent, format, explicit, shared);
+  const change = getInsertInterfaceStubsChange(classCode, stubs, offset, format);
+  return change ? [change] : [];
+}
+
+/**
+ * The members of one kind; indexers are placed with the properties
+ */
+function getMembersOfKind(members: InterfaceMembers, kind: keyof typeof STUB_KINDS): InterfaceMembers {
+  const only: InterfaceMembers = { methods: [], properties: [], events: [], [kind]: members[kind] };
+  return kind === "properties" ? { ...only, indexers: members.indexers } : only;
+}
+
+const MEMBER_ORDER: MemberDeclaration["kind"][] = ["field", "constructor", "property", "indexer", "event", "method"];
+const STUB_KINDS = { properties: "property", events: "event", methods: "method" } as const;
+
+/**
+ * Offset on the line after which stubs of a kind go: the last member of that kind, else the last
+ * member ordered before it, else the opening brace (when nothing else shares its line)
+ */
+function findStubAnchor(
+  classCode: string,
+  classType: TypeDeclaration,
+  kind: keyof typeof STUB_KINDS
+): number {
+  const rank = (member: MemberDeclaration) => MEMBER_ORDER.indexOf(member.kind);
+  const stubRank = MEMBER_ORDER.indexOf(STUB_KINDS[kind]);
+  const sameKind = classType.members.filter((m) => m.kind === STUB_KINDS[kind]);
+  const before = classType.members.filter((m) => rank(m) < stubRank);
+  const anchor = sameKind[sameKind.length - 1] ?? before[before.length - 1];
+  if (anchor) {
+    return anchor.end - 1;
+  }
 
-  const stubLines = needsBlankLine ? "\n" + stubs + "\n" : stubs + "\n";
+  const afterBrace = classCode.substring(classType.openBrace + 1, getLineEnd(classCode, classType.openBrace));
+  return afterBrace.trim() === "" ? classType.openBrace : classType.members[classType.members.length - 1].end - 1;
+}
 
-  return [...before, stubLines, ...after].join("\n");
+/**
+ * Insert interface stubs into a class
+ */
+export function insertInterfaceStubs(
+  classCode: string,
+  stubs: string,
+  offset?: number
+): string {
+  const change = getInsertInterfaceStubsChange(classCode, stubs, offset);
+  return change ? applyTextChanges(classCode, [change]) : classCode;
 }
 
 /**
- * Check which interface members are already implemented in a class
+ * Check which interface members are already implemented in a class,
+ * including its other partial declarations
  */
 export function filterUnimplementedMembers(
   members: InterfaceMembers,
-  classCode: string
+  classCode: string,
+  offset?: number,
+  partials: PartialDeclaration[] = [],
+  explicitInterface?: string
 ): InterfaceMembers {
-  const unimplementedMethods = members.methods.filter(method => {
-    // Check if method name exists in class with public modifier
-    const methodPattern = new RegExp(`public\\s+.*\\b${method.name}\\s*[<(]`);
-    return !methodPattern.test(classCode);
-  });
+  // Members of nested and sibling types do not count
+  const classMembers = getClassMembers(classCode, offset, partials)
+    // Only public members and explicit implementations can satisfy an interface;
+    // for explicit implementation only those of this interface
+    .filter((m) =>
+      explicitInterface
+        ? "explicitInterface" in m && !!m.explicitInterface && isSameInterface(m.explicitInterface, explicitInterface)
+        : m.modifiers.includes("public") || ("explicitInterface" in m && m.explicitInterface)
+    );
+  // Positional record parameters are public properties too
+  const positional = explicitInterface ? [] : getClassParts(classCode, offset, partials)
+    .flatMap((t) => getPositionalProperties(t).map((p) => p.name));
+
+  // Overloads only implement the interface method with the same parameter types
+  const isImplemented = (kind: MemberDeclaration["kind"], key: string) =>
+    classMembers.some((m) => m.kind === kind && getImplementationKey(m) === key) ||
+    (kind === "property" && positional.includes(key));
 
-  const unimplementedProperties = members.properties.filter(property => {
-    // Check if property name exists in class
-    const propertyPattern = new RegExp(`public\\s+.*\\b${property.name}\\s*{`);
-    return !propertyPattern.test(classCode);
-  });
+  return {
+    methods: members.methods.filter((method) => !isImplemented("method", getMethodKey(method.name, method.parameters))),
+    properties: members.properties.filter((property) => !isImplemented("property", property.name)),
+    events: members.events.filter((event) => !isImplemented("event", event.name)),
+    indexers: members.indexers?.filter((indexer) => !isImplemented("indexer", getIndexerName(indexer.parameters))),
+  };
+}
 
-  const unimplementedEvents = members.events.filter(event => {
-    // Check if event exists in class
-    const eventPattern = new RegExp(`public\\s+event\\s+.*\\b${event.name}\\b`);
-    return !eventPattern.test(classCode);
+/**
+ * Names of interface members that cannot be implemented as public members: another implemented
+ * interface declares a member of the same name, or the class already has a member of that name
+ * with a different signature. Such members call for explicit implementation.
+ */
+export function findConflictingMembers(
+  members: InterfaceMembers,
+  otherInterfaces: InterfaceMembers[],
+  classCode: string,
+  offset?: number,
+  partials: PartialDeclaration[] = []
+): string[] {
+  const classMembers = getClassMembers(classCode, offset, partials).filter(
+    (m) => !("explicitInterface" in m && m.explicitInterface)
+  );
+  const otherNames = new Set(otherInterfaces.flatMap((other) => getMemberSignatures(other).map(([name]) => name)));
+
+  const conflicts = getMemberSignatures(members).filter(([name, signature]) => {
+    const sameName = classMembers.filter((m) => getMemberName(m) === name);
+    return otherNames.has(name) || (sameName.length > 0 && !sameName.some((m) => getSignature(m) === signature));
   });
+  return [...new Set(conflicts.map(([name]) => name))];
+}
 
-  return {
-    methods: unimplementedMethods,
-    properties: unimplementedProperties,
-    events: unimplementedEvents,
+/**
+ * Fields and primary constructor parameters of the class typed as the interface, which an
+ * implementation can forward to, e.g. the `_inner` field of a decorator
+ */
+export function findDelegationTargets(
+  classCode: string,
+  interfaceName: string,
+  offset?: number,
+  partials: PartialDeclaration[] = []
+): string[] {
+  const parts = getClassParts(classCode, offset, partials);
+  const candidates = [
+    ...parts.flatMap((t) => getFields(t)),
+    ...parts.flatMap((t) => (t.parameters ? parseParameterList(t.parameters) : [])),
+  ];
+  return candidates
+    .filter((c) => c.name && isSameInterface(c.type.replace(/\?$/, ""), interfaceName))
+    .map((c) => c.name);
+}
+
+/**
+ * Names of the members and fields of every part of the class containing the offset
+ */
+export function getClassMemberNames(
+  classCode: string,
+  offset?: number,
+  partials: PartialDeclaration[] = []
+): Set<string> {
+  return new Set(getClassMembers(classCode, offset, partials).map((m) => m.name));
+}
+
+/**
+ * Members of every part of the class containing the offset
+ */
+function getClassMembers(
+  classCode: string,
+  offset: number | undefined,
+  partials: PartialDeclaration[]
+): MemberDeclaration[] {
+  return getClassParts(classCode, offset, partials).flatMap((t) => t.members);
+}
+
+/**
+ * The class containing the offset and its other partial declarations
+ */
+function getClassParts(classCode: string, offset: number | undefined, partials: PartialDeclaration[]): TypeDeclaration[] {
+  const classType = findTargetType(classCode, offset);
+  return classType ? [classType, ...partials.map((p) => p.type)] : [];
+}
+
+/**
+ * Name and signature of each member, comparable to {@link getSignature} of a class member
+ */
+function getMemberSignatures(members: InterfaceMembers): [string, string][] {
+  return [
+    ...members.methods.map((m): [string, string] => [m.name, `method ${m.returnType}(${getParameterTypes(m.parameters)})`]),
+    ...members.properties.map((p): [string, string] => [p.name, `property ${p.type}`]),
+    ...members.events.map((e): [string, string] => [e.name, `event ${e.type}`]),
+    ...(members.indexers ?? []).map((i): [string, string] => [getIndexerName(i.parameters), `indexer ${i.type}`]),
+  ].map(([name, signature]) => [name, signature.replace(/\s+/g, "")]);
+}
+
+function getSignature(member: MemberDeclaration): string {
+  switch (member.kind) {
+    case "method":
+      return `method ${member.returnType}(${getParameterTypes(member.parameters)})`.replace(/\s+/g, "");
+    case "property":
+    case "event":
+    case "indexer":
+      return `${member.kind} ${member.type}`.replace(/\s+/g, "");
+    default:
+      return member.kind;
+  }
+}
+
+/**
+ * Member name to match on; indexers are told apart by their parameter types, e.g. `this[int]`
+ */
+function getMemberName(member: MemberDeclaration): string {
+  return member.kind === "indexer" ? getIndexerName(member.parameters) : member.name;
+}
+
+/**
+ * What a class member is matched on to implement an interface member: methods and indexers
+ * by parameter types as well, e.g. `Get(int)`
+ */
+function getImplementationKey(member: MemberDeclaration): string {
+  return member.kind === "method" ? getMethodKey(member.name, member.parameters) : getMemberName(member);
+}
+
+function getMethodKey(name: string, parameters: string): string {
+  return `${name}(${getParameterTypes(parameters)})`;
+}
+
+function getIndexerName(parameters: string): string {
+  return `this[${getParameterTypes(parameters)}]`;
+}
+
+/**
+ * Parameter types with their ref kinds, without names and defaults
+ */
+function getParameterTypes(parameters: string): string {
+  return parseParameterList(parameters)
+    .map((p) => [...p.modifiers.filter((m) => m !== "this" && m !== "params"), p.type].join(" "))
+    .join(",")
+    .replace(/\s+/g, "");
+}
+
+/**
+ * Whether two references name the same interface, e.g. `Models.IRepository<Order>` and `IRepository<Order>`
+ */
+function isSameInterface(a: string, b: string): boolean {
+  const key = (reference: string) => {
+    const { name, typeArguments } = parseTypeReference(reference);
+    return `${name.split(".").pop()}<${typeArguments.join(",").replace(/\s+/g, "")}>`;
   };
+  return key(a) === key(b);
 }
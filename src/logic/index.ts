@@ -5,13 +5,33 @@
 // Re-export interface extraction functions
 export {
   ExtractionResult,
+  ExtractableMember,
+  InterfaceGenerationOptions,
+  MemberFilterOptions,
+  MemberSourceOptions,
+  DEFAULT_EXCLUDED_ATTRIBUTES,
+  getExtractableMembers,
+  generateMemberSignature,
   generateInterfaceCode,
   updateClassToImplementInterface,
+  getImplementInterfaceChange,
 } from "./interfaceExtractor";
 
+// Re-export text change utilities
+export { TextChange, applyTextChanges } from "./textChanges";
+
+// Re-export formatting utilities
+export {
+  CodeFormat,
+  DEFAULT_CODE_FORMAT,
+  EditorConfigFile,
+  getEditorConfigProperties,
+  resolveCodeFormat,
+  getIndentUnit,
+} from "./formatting";
+
 // Re-export parser utilities
 export {
-  CSharpPatterns,
   extractNamespace,
   extractUsings,
   extractClassName,
@@ -20,32 +40,153 @@ export {
   extractProperties,
   extractFields,
   extractImplementedInterfaces,
+  isImplementationType,
+  findTargetType,
+  findInterfaceType,
+  SourceFile,
+  PartialDeclaration,
+  BaseClassDeclaration,
+  parseTypeReference,
+  substituteTypeParameters,
+  getTypeParameterNames,
+  isTypeHeaderAt,
+  findMemberAtOffset,
+  getPublicMethods,
+  getPublicProperties,
+  getPublicIndexers,
+  getPublicEvents,
+  getPositionalProperties,
+  getFields,
+  toMethodInfo,
+  toPropertyInfo,
+  toIndexerInfo,
+  toEventInfo,
+  extractIndexers,
   MethodInfo,
   EventInfo,
   PropertyInfo,
+  PropertyAccessor,
+  IndexerInfo,
   FieldInfo,
 } from "./csharpParser";
 
+// Re-export syntax tree
+export {
+  parseCSharp,
+  parseMemberDeclaration,
+  parseParameterList,
+  getAllTypes,
+  getAllNamespaces,
+  findTypeAtOffset,
+  CompilationUnit,
+  UsingDirective,
+  NamespaceDeclaration,
+  TypeDeclaration,
+  TypeKind,
+  MemberDeclaration,
+  MethodDeclaration,
+  ConstructorDeclaration,
+  PropertyDeclaration,
+  IndexerDeclaration,
+  EventDeclaration,
+  FieldDeclaration,
+  AccessorDeclaration,
+  ParameterDeclaration,
+  DocumentationComment,
+} from "./csharpSyntax";
+
+// Re-export workspace type index
+export {
+  TypeIndex,
+  IndexedType,
+  InheritedInterface,
+  ReferenceContext,
+  createTypeIndex,
+  indexFile,
+  removeIndexedFile,
+  getIndexedFiles,
+  getGlobalUsingDirectives,
+  getIndexedTypes,
+  getIndexedNamespaces,
+  findTypesByFullName,
+  getTypeNamespaces,
+  resolveTypeReference,
+  getPartialDeclarations,
+  getBaseClassChain,
+  getInheritedInterfaces,
+} from "./typeIndex";
+
+// Re-export using directive analysis
+export {
+  GlobalUsings,
+  UsingContext,
+  getGlobalUsings,
+  toGlobalUsings,
+  getProjectGlobalUsings,
+  mergeGlobalUsings,
+  getReferencedTypeNames,
+  getDocumentationReferences,
+  getRequiredUsings,
+  getAddUsingChange,
+} from "./usings";
+
+// Re-export variance inference
+export { Variance, Polarity, TypeUsage, inferVariance, getParameterUsages, getConstraintUsages } from "./variance";
+
+// Re-export tokenizer
+export { Token, TokenKind, tokenize } from "./csharpTokenizer";
+
 // Re-export add to interface utilities
 export {
   generateMethodSignature,
   generatePropertySignature,
+  generateIndexerSignature,
+  generateEventSignature,
+  generateDocumentationLines,
+  getInheritDocChange,
   addMethodToInterface,
   addPropertyToInterface,
+  getAddMethodToInterfaceChange,
+  getAddPropertyToInterfaceChange,
   parseMethodFromLine,
   parsePropertyFromLine,
+  findMethodAtOffset,
+  findPropertyAtOffset,
   findImplementedInterfaces,
+  BaseTypeResolver,
 } from "./addToInterface";
 
 // Re-export implement interface utilities
 export {
   InterfaceMembers,
   parseInterfaceMembers,
+  getInterfaceMembers,
+  substituteTypeArguments,
+  InterfaceMemberGroup,
+  findFrameworkInterface,
+  getInterfaceMemberGroup,
+  removeDuplicateInterfaceMembers,
+  generateInterfaceStubGroups,
+  countInterfaceMembers,
   generateMethodStub,
   generatePropertyStub,
   generateEventStub,
+  generateIndexerStub,
   generateInterfaceStubs,
   findClassInsertPosition,
+  getClassMemberIndent,
   insertInterfaceStubs,
+  getInsertInterfaceStubsChange,
+  getInsertStubGroupsChanges,
+  getClassMemberNames,
+  StubPlacement,
   filterUnimplementedMembers,
+  findConflictingMembers,
+  findDelegationTargets,
+  StubOptions,
+  StubBody,
+  usesSystemNamespace,
 } from "./implementInterface";
+
+// Re-export abstract member implementation utilities
+export { getAbstractMembers, getBaseClassName } from "./implementAbstractMembers";
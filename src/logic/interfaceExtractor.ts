@@ -3,116 +3,496 @@
  */
 import * as path from "path";
 import {
-  extractNamespace,
-  extractUsings,
-  extractMethods,
-  extractEvents,
+  findTargetType,
+  isImplementationType,
+  getPositionalProperties,
+  toMethodInfo,
+  toPropertyInfo,
+  toIndexerInfo,
+  toEventInfo,
+  MethodInfo,
+  PropertyInfo,
+  IndexerInfo,
+  EventInfo,
+  PropertyAccessor,
+  PartialDeclaration,
+  BaseClassDeclaration,
+  getTypeParameterNames,
+  getTypeParameterName,
+  substituteTypeParameters,
 } from "./csharpParser";
+import {
+  generateMethodSignature,
+  generatePropertySignature,
+  generateIndexerSignature,
+  generateEventSignature,
+  generateDocumentationLines,
+} from "./addToInterface";
+import {
+  parseCSharp,
+  getAllTypes,
+  getAllNamespaces,
+  TypeDeclaration,
+  MemberDeclaration,
+} from "./csharpSyntax";
+import { TextChange, applyTextChanges } from "./textChanges";
+import { inferVariance, getParameterUsages, getConstraintUsages, TypeUsage, Polarity } from "./variance";
+import {
+  CodeFormat,
+  DEFAULT_CODE_FORMAT,
+  formatBlock,
+  formatFile,
+  getIndentUnit,
+} from "./formatting";
+import {
+  GlobalUsings,
+  getReferencedTypeNames,
+  getDocumentationReferences,
+  getRequiredUsings,
+} from "./usings";
 
 export interface ExtractionResult {
   interfaceName: string;
+  /** How the class refers to the interface in its base list, e.g. `IRepository<T>` */
+  interfaceReference: string;
   interfaceCode: string;
   namespace: string | null;
 }
 
+/**
+ * A class member that can be pulled into an extracted interface
+ */
+export type ExtractableMember = (
+  | { kind: "property"; info: PropertyInfo }
+  | { kind: "indexer"; info: IndexerInfo }
+  | { kind: "method"; info: MethodInfo }
+  | { kind: "event"; info: EventInfo }
+) & {
+  /** File declaring the member when it comes from another partial declaration of the class */
+  file?: string;
+  /** Base class the member is inherited from, e.g. `ServiceBase` */
+  inheritedFrom?: string;
+};
+
+/**
+ * Which class members extraction leaves out
+ */
+export interface MemberFilterOptions {
+  /** Extract static members as `static abstract` interface members; skipped by default */
+  includeStaticMembers?: boolean;
+  /** Members carrying one of these attributes are skipped, e.g. `ExcludeFromInterface` */
+  excludedAttributes?: string[];
+}
+
+export const DEFAULT_EXCLUDED_ATTRIBUTES = ["ExcludeFromInterface", "Obsolete"];
+
+/** Members every type inherits from `object`; overriding them adds nothing to a contract */
+const OBJECT_MEMBERS = ["ToString", "Equals", "GetHashCode"];
+
+/**
+ * Where extractable members are gathered from besides the class declaration itself
+ */
+export interface MemberSourceOptions {
+  /** Which members are extractable */
+  filter?: MemberFilterOptions;
+  /** Other partial declarations of the class, whose members and usings are merged in */
+  partials?: PartialDeclaration[];
+  /** Base classes whose public members are offered too, nearest first */
+  baseClasses?: BaseClassDeclaration[];
+}
+
+export interface InterfaceGenerationOptions extends MemberSourceOptions {
+  /** Offset inside the class to extract from; defaults to the class declared as `className` */
+  offset?: number;
+  /** Members to include; defaults to every extractable member of the class */
+  members?: ExtractableMember[];
+  /** Layout of the generated file; defaults to four-space Allman style */
+  format?: CodeFormat;
+  /** Usings the whole project already has, which the generated file can leave out */
+  globalUsings?: GlobalUsings;
+  /** Namespaces declaring a type of the given name, used to keep only the usings members need */
+  resolveType?: (name: string) => string[] | undefined;
+}
+
+/**
+ * List the public members of a class that can go on an extracted interface,
+ * in interface order: properties, indexers, methods, events.
+ * Static members, overrides of `object` members and members with excluded attributes are skipped.
+ * Members of base classes come after the class's own members of the same kind, and members
+ * the class overrides or hides are listed once.
+ */
+export function getExtractableMembers(
+  classText: string,
+  className: string,
+  offset?: number,
+  sources: MemberSourceOptions = {}
+): ExtractableMember[] {
+  const classType = findClassDeclaration(classText, className, offset);
+  if (!classType) {
+    return [];
+  }
+
+  const filter = sources.filter ?? {};
+  // Members of every partial declaration, those of the class under the cursor first, then base classes
+  const parts: MemberSource[] = [
+    { type: classType },
+    ...(sources.partials ?? []).map((p) => ({ type: p.type, file: p.file.path })),
+    ...(sources.baseClasses ?? []).map((b) => ({
+      type: b.type,
+      inheritedFrom: b.type.name,
+      typeArguments: b.typeArguments,
+    })),
+  ];
+  const declared = parts.flatMap((source) =>
+    source.type.members
+      .filter((m) => m.modifiers.includes("public") && isExtractable(m, filter))
+      .map((member) => ({ member, source }))
+  );
+  // Properties and indexers need at least one accessor visible to callers
+  const hasAccessors = (p: { accessors?: unknown[] }) => !!p.accessors && p.accessors.length > 0;
+
+  const members: ExtractableMember[] = [
+    // Positional record parameters come first, as they are declared first
+    ...parts.flatMap((source) =>
+      getPositionalProperties(source.type).map((info) => fromSource({ kind: "property", info }, source))
+    ),
+    ...declared.flatMap(({ member, source }) =>
+      member.kind === "property" ? [fromSource({ kind: "property", info: toPropertyInfo(member) }, source)] : []
+    ),
+    ...declared.flatMap(({ member, source }) =>
+      member.kind === "indexer" ? [fromSource({ kind: "indexer", info: toIndexerInfo(member) }, source)] : []
+    ),
+    // Constructors are separate declarations and never included
+    ...declared.flatMap(({ member, source }) =>
+      member.kind === "method" ? [fromSource({ kind: "method", info: toMethodInfo(member) }, source)] : []
+    ),
+    ...declared.flatMap(({ member, source }) =>
+      member.kind === "event" ? [fromSource({ kind: "event", info: toEventInfo(member) }, source)] : []
+    ),
+  ].filter((m) => m.kind === "method" || m.kind === "event" || hasAccessors(m.info));
+  return removeDuplicateMembers(members);
+}
+
+/**
+ * A partial method is declared in one part and implemented in another, and a class may override
+ * or hide a base class member; keep one of each, preferring the class's own documented declaration
+ */
+function removeDuplicateMembers(members: ExtractableMember[]): ExtractableMember[] {
+  const bySignature = new Map<string, ExtractableMember>();
+  for (const member of members) {
+    const signature = generateMemberSignature(member);
+    const existing = bySignature.get(signature);
+    const betterDocumented =
+      !!existing && !existing.info.documentation && !!member.info.documentation && !member.inheritedFrom;
+    if (!existing || betterDocumented) {
+      bySignature.set(signature, member);
+    }
+  }
+  const kept = new Set(bySignature.values());
+  return members.filter((m) => kept.has(m));
+}
+
+/**
+ * A declaration members are gathered from
+ */
+interface MemberSource {
+  type: TypeDeclaration;
+  /** File of another partial declaration */
+  file?: string;
+  /** Name of the base class, for inherited members */
+  inheritedFrom?: string;
+  /** Type arguments the derived class supplies to a generic base class */
+  typeArguments?: Map<string, string>;
+}
+
+/**
+ * Record where a member comes from; inherited members are written with the derived class's type arguments
+ */
+function fromSource(member: ExtractableMember, source: MemberSource): ExtractableMember {
+  const result = { ...member, file: source.file, inheritedFrom: source.inheritedFrom } as ExtractableMember;
+  const typeArguments = source.typeArguments;
+  if (!typeArguments || typeArguments.size === 0) {
+    return result;
+  }
+
+  const substitute = (text: string) => substituteTypeParameters(text, typeArguments);
+  switch (result.kind) {
+    case "method":
+      result.info = {
+        ...result.info,
+        returnType: substitute(result.info.returnType),
+        parameters: substitute(result.info.parameters),
+      };
+      break;
+    case "indexer":
+      result.info = { ...result.info, type: substitute(result.info.type), parameters: substitute(result.info.parameters) };
+      break;
+    default:
+      result.info = { ...result.info, type: substitute(result.info.type) };
+  }
+  return result;
+}
+
+function isExtractable(member: MemberDeclaration, filter: MemberFilterOptions): boolean {
+  if (member.modifiers.includes("static") && !filter.includeStaticMembers) {
+    return false;
+  }
+  if (member.modifiers.includes("override") && OBJECT_MEMBERS.includes(member.name)) {
+    return false;
+  }
+  const excluded = (filter.excludedAttributes ?? DEFAULT_EXCLUDED_ATTRIBUTES).map(getAttributeName);
+  return !member.attributes.some((a) => excluded.includes(getAttributeName(a)));
+}
+
+/**
+ * The simple name of an attribute, e.g. `System.ObsoleteAttribute("Use Find")` gives Obsolete
+ */
+function getAttributeName(attribute: string): string {
+  const name = attribute.replace(/\(.*$/s, "").trim().split(/\.|::/).pop() ?? "";
+  return name.replace(/Attribute$/, "");
+}
+
+/**
+ * Generate the interface signature of an extractable member
+ */
+export function generateMemberSignature(member: ExtractableMember): string {
+  switch (member.kind) {
+    case "property":
+      return generatePropertySignature(member.info);
+    case "indexer":
+      return generateIndexerSignature(member.info);
+    case "method":
+      return generateMethodSignature(member.info);
+    case "event":
+      return generateEventSignature(member.info);
+  }
+}
+
 /**
  * Generate interface code from a C# class
+ * Only the selected members are included when `options.members` is given
  */
 export function generateInterfaceCode(
   classText: string,
   interfaceName: string,
-  currentFileName: string
+  className: string,
+  options: InterfaceGenerationOptions = {}
 ): ExtractionResult {
-  const className = currentFileName.replace(".cs", "");
+  const classType = findClassDeclaration(classText, className, options.offset);
+  if (!classType) {
+    throw new Error(`Could not find the declaration of type '${className}'.`);
+  }
   const actualInterfaceName = path.basename(interfaceName);
 
-  const namespace = extractNamespace(classText);
-  const usings = extractUsings(classText);
+  const namespace = classType.namespace;
 
-  // Get methods excluding constructors
-  const methods = extractMethods(classText, className);
-  const interfaceMethods = methods.map((m) => {
-    const generic = m.genericParams ? `<${m.genericParams}>` : "";
-    return `    ${m.returnType} ${m.name}${generic}(${m.parameters});`;
-  });
-
-  // Get events
-  const events = extractEvents(classText);
-  const interfaceEvents = events.map((e) => `    event ${e.type} ${e.name};`);
+  const format = options.format ?? DEFAULT_CODE_FORMAT;
+  const unit = getIndentUnit(format);
+  const members =
+    options.members ??
+    getExtractableMembers(classText, className, options.offset, options);
+  // Documentation comments move with their members
+  const memberLines = members.flatMap((m) => [
+    ...generateDocumentationLines(m.info),
+    generateMemberSignature(m),
+  ]);
 
-  const allInterfaceMembers = [...interfaceMethods, ...interfaceEvents];
+  const partialTypes = (options.partials ?? []).map((p) => p.type);
+  const declaration = generateInterfaceDeclaration(actualInterfaceName, classType, members, partialTypes);
+  const usings = getInterfaceUsings(classText, classType, actualInterfaceName, declaration, members, options);
 
   // Generate the interface code, including the namespace if available
-  const interfaceCode = namespace
-    ? `${usings}\n\nnamespace ${namespace} \n{\n\tpublic interface ${actualInterfaceName} \n\t{\n\t${allInterfaceMembers.join(
-        "\n\t"
-      )}\n\t}\n}`
-    : `${usings}\n\npublic interface ${actualInterfaceName} \n{\n${allInterfaceMembers.join(
-        "\n"
-      )}\n}`;
+  const lines: string[] = usings.length > 0 ? [...usings, ""] : [];
+  if (namespace && usesFileScopedNamespace(classText)) {
+    // Follow the source file: `namespace X;` with the interface at the top level
+    lines.push(`namespace ${namespace};`, "");
+    lines.push(...formatBlock(declaration, memberLines.map((s) => `${unit}${s}`), "", format));
+  } else if (namespace) {
+    const body = formatBlock(declaration, memberLines.map((s) => `${unit}${unit}${s}`), unit, format);
+    lines.push(...formatBlock(`namespace ${namespace}`, body, "", format));
+  } else {
+    lines.push(...formatBlock(declaration, memberLines.map((s) => `${unit}${s}`), "", format));
+  }
+  const interfaceCode = formatFile(lines, format);
+
+  const typeArguments = getTypeParameterNames(classType.typeParameters);
+  const interfaceReference =
+    typeArguments.length > 0 ? `${actualInterfaceName}<${typeArguments.join(", ")}>` : actualInterfaceName;
 
-  return { interfaceName: actualInterfaceName, interfaceCode, namespace };
+  return { interfaceName: actualInterfaceName, interfaceReference, interfaceCode, namespace };
 }
 
 /**
- * Update a class declaration to implement an interface
+ * The interface declaration line, carrying over the class's type parameters
+ * (with `in` / `out` where the members allow it) and its `where` clauses
  */
-export function updateClassToImplementInterface(
-  classText: string,
-  className: string,
-  interfaceName: string
+function generateInterfaceDeclaration(
+  interfaceName: string,
+  classType: TypeDeclaration,
+  members: ExtractableMember[],
+  partialTypes: TypeDeclaration[]
 ): string {
-  // Regex for primary constructors
-  const primaryConstructorRegex = new RegExp(
-    `(public\\s+class\\s+${className}\\(([^)]*)\\))(\\s*:\\s*([^\\s{]+(?:\\s*,\\s*[^\\s{]+)*))?`
+  if (!classType.typeParameters) {
+    return `public interface ${interfaceName}`;
+  }
+
+  const parameters = classType.typeParameters.split(",").map((p) => p.trim());
+  const variance = inferVariance(
+    getTypeParameterNames(classType.typeParameters),
+    members.flatMap(getTypeUsages)
   );
+  const typeParameters = parameters.map((parameter) => {
+    const modifier = variance.get(getTypeParameterName(parameter));
+    // Attributes stay in front: `[Attr] out T`
+    return modifier ? parameter.replace(/(\w+)$/, `${modifier} $1`) : parameter;
+  });
+  // Any one of the partial declarations may carry the constraints
+  const declaredConstraints = [classType, ...partialTypes].find((t) => t.constraints)?.constraints;
+  const constraints = declaredConstraints ? ` ${declaredConstraints}` : "";
+  return `public interface ${interfaceName}<${typeParameters.join(", ")}>${constraints}`;
+}
+
+/**
+ * The class file's usings that the interface's declaration, signatures and `cref`s need
+ */
+function getInterfaceUsings(
+  classText: string,
+  classType: TypeDeclaration,
+  interfaceName: string,
+  declaration: string,
+  members: ExtractableMember[],
+  options: InterfaceGenerationOptions
+): string[] {
+  // Members of partial declarations and base classes were written against their own file's usings
+  const declarations = [...(options.partials ?? []), ...(options.baseClasses ?? [])];
+  const usings = [classText, ...declarations.map((d) => d.file.code)].flatMap((code) => {
+    const unit = parseCSharp(code);
+    return [...unit.usings, ...getAllNamespaces(unit).flatMap((ns) => ns.usings)];
+  });
 
-  let match = primaryConstructorRegex.exec(classText);
-  if (match) {
-    const classDeclarationPart = match[1];
-    const existingInheritanceWithColon = match[3];
-
-    if (existingInheritanceWithColon) {
-      if (existingInheritanceWithColon.includes(interfaceName)) {
-        return classText;
-      }
-      return classText.replace(
-        primaryConstructorRegex,
-        `${classDeclarationPart}${existingInheritanceWithColon}, ${interfaceName}`
-      );
-    } else {
-      return classText.replace(
-        primaryConstructorRegex,
-        `${classDeclarationPart} : ${interfaceName}`
-      );
+  const typeNames = new Set(
+    [declaration, ...members.map(generateMemberSignature)].flatMap((line) => [
+      ...getReferencedTypeNames(line),
+    ])
+  );
+  // A cref without a type, e.g. `<see cref="Find"/>`, points at another member
+  const memberNames = new Set(
+    [classType, ...declarations.map((d) => d.type)].flatMap((t) => t.members.map((m) => m.name))
+  );
+  for (const name of getDocumentationReferences(members.flatMap((m) => generateDocumentationLines(m.info)))) {
+    if (!memberNames.has(name)) {
+      typeNames.add(name);
     }
   }
 
-  // Regex for regular classes
-  const regularClassRegex = new RegExp(
-    `(public\\s+class\\s+${className})(\\s*:\\s*([^\\s{]+(?:\\s*,\\s*[^\\s{]+)*))?`
+  // Type parameters are not types to import
+  const typeParameters = [
+    ...getTypeParameterNames(classType.typeParameters),
+    ...members.flatMap((m) => (m.kind === "method" ? getTypeParameterNames(m.info.genericParams) : [])),
+  ];
+  typeParameters.forEach((name) => typeNames.delete(name));
+  typeNames.delete(classType.name);
+  typeNames.delete(interfaceName);
+
+  return getRequiredUsings(usings, typeNames, {
+    namespace: classType.namespace,
+    globalUsings: options.globalUsings,
+    resolveType: options.resolveType,
+  }).map((u) => u.text);
+}
+
+/**
+ * Types a member exposes and whether callers receive them (output) or pass them in (input)
+ */
+function getTypeUsages(member: ExtractableMember): TypeUsage[] {
+  switch (member.kind) {
+    case "method":
+      return [
+        { type: member.info.returnType, polarity: 1 },
+        ...getParameterUsages(member.info.parameters),
+        ...getConstraintUsages(member.info.constraints),
+      ];
+    case "property":
+      return [{ type: member.info.type, polarity: getAccessorPolarity(member.info.accessors) }];
+    case "indexer":
+      return [
+        { type: member.info.type, polarity: getAccessorPolarity(member.info.accessors) },
+        ...getParameterUsages(member.info.parameters),
+      ];
+    case "event":
+      // Handlers are passed to add/remove, so the delegate type is an input
+      return [{ type: member.info.type, polarity: -1 }];
+  }
+}
+
+function getAccessorPolarity(accessors: PropertyAccessor[] = ["get", "set"]): Polarity {
+  const readable = accessors.includes("get");
+  const writable = accessors.includes("set") || accessors.includes("init");
+  return readable && writable ? 0 : readable ? 1 : -1;
+}
+
+/**
+ * The class, struct or record under the offset, or the one declared with the given name.
+ * The file name plays no part: a file may declare a class with any name.
+ */
+function findClassDeclaration(
+  classText: string,
+  className: string,
+  offset?: number
+): TypeDeclaration | undefined {
+  if (offset !== undefined) {
+    return findTargetType(classText, offset);
+  }
+  return getAllTypes(parseCSharp(classText)).find(
+    (t) => isImplementationType(t) && t.name === className
   );
+}
 
-  match = regularClassRegex.exec(classText);
-  if (match) {
-    const classDeclarationPart = match[1];
-    const existingInheritanceWithColon = match[2];
-
-    if (existingInheritanceWithColon) {
-      if (existingInheritanceWithColon.includes(interfaceName)) {
-        return classText;
-      }
-      return classText.replace(
-        regularClassRegex,
-        `${classDeclarationPart}${existingInheritanceWithColon}, ${interfaceName}`
-      );
-    } else {
-      return classText.replace(
-        regularClassRegex,
-        `${classDeclarationPart} : ${interfaceName}`
-      );
-    }
+/**
+ * Whether the file declares a file-scoped namespace (`namespace X;`)
+ */
+function usesFileScopedNamespace(code: string): boolean {
+  return getAllNamespaces(parseCSharp(code)).some((ns) => ns.isFileScoped);
+}
+
+/**
+ * Compute the edit that adds an interface to a class declaration's base list.
+ * The class is the one under the offset when given, so same-named nested types are told apart.
+ * Returns null if the class cannot be found or already implements the interface,
+ * in this or another partial declaration.
+ */
+export function getImplementInterfaceChange(
+  classText: string,
+  className: string,
+  interfaceName: string,
+  partials: PartialDeclaration[] = [],
+  offset?: number
+): TextChange | null {
+  const classType = findClassDeclaration(classText, className, offset);
+
+  // Another partial declaration may already list the interface
+  const baseList = [classType, ...partials.map((p) => p.type)].flatMap((t) => t?.baseList ?? []);
+  if (!classType || baseList.includes(interfaceName)) {
+    return null;
   }
 
-  return classText;
+  // Append after the name / primary constructor, or after the existing base list
+  const newText = classType.baseList.length > 0 ? `, ${interfaceName}` : ` : ${interfaceName}`;
+  return { start: classType.headerEnd, end: classType.headerEnd, newText };
+}
+
+/**
+ * Update a class declaration to implement an interface
+ * Throws if the class declaration cannot be found
+ */
+export function updateClassToImplementInterface(
+  classText: string,
+  className: string,
+  interfaceName: string
+): string {
+  if (!findClassDeclaration(classText, className)) {
+    throw new Error(`Could not find the declaration of type '${className}'.`);
+  }
+  const change = getImplementInterfaceChange(classText, className, interfaceName);
+  return change ? applyTextChanges(classText, [change]) : classText;
 }
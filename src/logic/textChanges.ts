@@ -0,0 +1,63 @@
+/**
+ * Offset-based text edits produced by the refactoring logic
+ */
+
+/**
+ * Replace the text between start and end (exclusive) offsets with newText
+ */
+export interface TextChange {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * Apply non-overlapping text changes to a string.
+ * Insertions at the same offset end up in the order they are listed.
+ */
+export function applyTextChanges(text: string, changes: TextChange[]): string {
+  const sorted = changes
+    .map((change, i) => ({ change, i }))
+    .sort((a, b) => b.change.start - a.change.start || b.i - a.i)
+    .map(({ change }) => change);
+  let result = text;
+  for (const change of sorted) {
+    result = result.substring(0, change.start) + change.newText + result.substring(change.end);
+  }
+  return result;
+}
+
+/**
+ * Get the leading whitespace of the line containing the given offset
+ */
+export function getLineIndent(text: string, offset: number): string {
+  const lineStart = getLineStart(text, offset);
+  const match = text.substring(lineStart).match(/^[ \t]*/);
+  return match ? match[0] : "";
+}
+
+/**
+ * Offset of the first character of the line containing the given offset
+ */
+export function getLineStart(text: string, offset: number): number {
+  return text.lastIndexOf("\n", offset - 1) + 1;
+}
+
+/**
+ * Offset of the line break ending the line that contains the given offset
+ * (before any "\r"), or the text length on the last line
+ */
+export function getLineEnd(text: string, offset: number): number {
+  const newline = text.indexOf("\n", offset);
+  if (newline === -1) {
+    return text.length;
+  }
+  return text[newline - 1] === "\r" ? newline - 1 : newline;
+}
+
+/**
+ * Line ending used by the text, defaulting to "\n"
+ */
+export function detectLineEnding(text: string): string {
+  return text.includes("\r\n") ? "\r\n" : "\n";
+}
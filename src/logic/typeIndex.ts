@@ -0,0 +1,333 @@
+/**
+ * Index of the types declared in the workspace, resolved by fully qualified name
+ */
+import { parseCSharp, getAllTypes, getAllNamespaces, TypeDeclaration, UsingDirective } from "./csharpSyntax";
+import {
+  SourceFile,
+  PartialDeclaration,
+  BaseClassDeclaration,
+  parseTypeReference,
+  getTypeParameterNames,
+  substituteTypeParameters,
+} from "./csharpParser";
+
+/**
+ * A type declaration in the index. Partial types have one entry per declaration.
+ */
+export interface IndexedType extends PartialDeclaration {
+  /** Namespace, containing types and name, e.g. `App.Models.Order.Line` */
+  fullName: string;
+  /** Number of type parameters */
+  arity: number;
+}
+
+/**
+ * The namespaces, types, base lists and members of every indexed file, by file path
+ */
+export interface TypeIndex {
+  files: Map<string, IndexedFile>;
+}
+
+interface IndexedFile {
+  file: SourceFile;
+  namespaces: string[];
+  usings: UsingDirective[];
+  types: IndexedType[];
+}
+
+/**
+ * An interface inherited by another, reached through a base list
+ */
+export interface InheritedInterface {
+  /** The reference with the type arguments of the implementing type, e.g. `IRepository<Order>` */
+  reference: string;
+  /** Declarations of the interface, several for a partial one; none when it is not in the workspace */
+  declarations: IndexedType[];
+  /** The interface's type parameters mapped to the arguments it is inherited with */
+  typeArguments: Map<string, string>;
+}
+
+/**
+ * Where a type reference is written: the file (for its usings) and the type containing it
+ */
+export interface ReferenceContext {
+  file: SourceFile;
+  type?: TypeDeclaration;
+}
+
+export function createTypeIndex(files: SourceFile[] = []): TypeIndex {
+  const index: TypeIndex = { files: new Map() };
+  files.forEach((file) => indexFile(index, file));
+  return index;
+}
+
+/**
+ * Add a file to the index, replacing what was indexed for it before
+ */
+export function indexFile(index: TypeIndex, file: SourceFile): void {
+  const unit = parseCSharp(file.code);
+  const allTypes = getAllTypes(unit);
+  const types = allTypes.map((type): IndexedType => {
+    const containing = allTypes
+      .filter((t) => t.start < type.start && type.end <= t.end)
+      .map((t) => t.name);
+    return {
+      file,
+      type,
+      fullName: [type.namespace, ...containing, type.name].filter((part) => part).join("."),
+      arity: getTypeParameterNames(type.typeParameters).length,
+    };
+  });
+  const namespaces = getAllNamespaces(unit).map((ns) => ns.name);
+  index.files.set(file.path, { file, namespaces, usings: getFileUsings(file), types });
+}
+
+export function removeIndexedFile(index: TypeIndex, path: string): void {
+  index.files.delete(path);
+}
+
+/**
+ * Every indexed source file
+ */
+export function getIndexedFiles(index: TypeIndex): SourceFile[] {
+  return [...index.files.values()].map((f) => f.file);
+}
+
+/**
+ * The `global using` directives of the indexed files, or of those `include` accepts
+ */
+export function getGlobalUsingDirectives(
+  index: TypeIndex,
+  include: (file: SourceFile) => boolean = () => true
+): UsingDirective[] {
+  return [...index.files.values()]
+    .filter((f) => include(f.file))
+    .flatMap((f) => f.usings.filter((u) => u.isGlobal));
+}
+
+/**
+ * Every indexed type declaration
+ */
+export function getIndexedTypes(index: TypeIndex): IndexedType[] {
+  return [...index.files.values()].flatMap((f) => f.types);
+}
+
+/**
+ * The declarations of a type by fully qualified name (several for partial types)
+ */
+export function findTypesByFullName(index: TypeIndex, fullName: string, arity?: number): IndexedType[] {
+  return getIndexedTypes(index).filter(
+    (t) => t.fullName === fullName && (arity === undefined || t.arity === arity)
+  );
+}
+
+/**
+ * Every namespace declared in the indexed files
+ */
+export function getIndexedNamespaces(index: TypeIndex): string[] {
+  return [...new Set([...index.files.values()].flatMap((f) => f.namespaces))];
+}
+
+/**
+ * Namespaces declaring a type with the given simple name; "" for the global namespace
+ */
+export function getTypeNamespaces(index: TypeIndex, name: string): string[] | undefined {
+  const namespaces = new Set(
+    getIndexedTypes(index)
+      .filter((t) => t.type.name === name)
+      .map((t) => t.type.namespace ?? "")
+  );
+  return namespaces.size > 0 ? [...namespaces] : undefined;
+}
+
+/**
+ * Resolve a type reference as written in a file, e.g. `IRepository<Order>` or `Models.Order`,
+ * following C# lookup: nested types of the containing types, the enclosing namespaces from
+ * the innermost out, then the file's usings and aliases. Returns the declarations of the type
+ * (several for partial types), or an empty list when it is not declared in the workspace.
+ */
+export function resolveTypeReference(
+  index: TypeIndex,
+  reference: string,
+  context: ReferenceContext
+): IndexedType[] {
+  const { name, typeArguments } = parseTypeReference(reference);
+  const arity = typeArguments.length;
+  const qualifiedName = name.replace(/^global::/, "").replace(/::/g, ".");
+  const usings = getFileUsings(context.file);
+
+  // An alias stands for the start of the name: `using Models = App.Models;` and `Models.Order`
+  const [first, ...rest] = qualifiedName.split(".");
+  const alias = usings.find((u) => u.alias === first && !u.isStatic);
+  if (alias) {
+    const aliased = parseTypeReference(alias.name).name;
+    return findTypesByFullName(index, [aliased, ...rest].join("."), rest.length > 0 ? arity : undefined);
+  }
+
+  for (const prefix of getLookupPrefixes(context)) {
+    const found = findTypesByFullName(index, prefix ? `${prefix}.${qualifiedName}` : qualifiedName, arity);
+    if (found.length > 0) {
+      return found;
+    }
+  }
+
+  // Usings only import the types of a namespace, not nested namespaces;
+  // `global using` directives of any file apply as well
+  const imported = [...usings, ...getGlobalUsingDirectives(index)]
+    .filter((u) => !u.alias && !u.isStatic)
+    .map((u) => u.name);
+  for (const namespace of new Set(imported)) {
+    const found = findTypesByFullName(index, `${namespace}.${qualifiedName}`, arity);
+    if (found.length > 0) {
+      return found;
+    }
+  }
+
+  // Namespaces imported by the project file cannot be seen here; accept a type whose name is unique
+  const candidates = getIndexedTypes(index).filter(
+    (t) => (t.fullName === qualifiedName || t.fullName.endsWith(`.${qualifiedName}`)) && t.arity === arity
+  );
+  return new Set(candidates.map((t) => t.fullName)).size === 1 ? candidates : [];
+}
+
+/**
+ * The other `partial` declarations of a type: the same kind of type with the same
+ * fully qualified name and number of type parameters
+ */
+export function getPartialDeclarations(index: TypeIndex, declaration: PartialDeclaration): IndexedType[] {
+  if (!declaration.type.modifiers.includes("partial")) {
+    return [];
+  }
+  const self = toIndexedType(declaration);
+  return findTypesByFullName(index, self.fullName, self.arity).filter(
+    (t) =>
+      t.type.kind === self.type.kind &&
+      t.type.modifiers.includes("partial") &&
+      !(t.file.path === self.file.path && t.type.start === self.type.start)
+  );
+}
+
+/**
+ * Walk the base-class chain of a type, nearest base class first. Stops at the first base
+ * that is not a class in the index (an interface, or a framework or package type).
+ */
+export function getBaseClassChain(index: TypeIndex, declaration: PartialDeclaration): BaseClassDeclaration[] {
+  const chain: BaseClassDeclaration[] = [];
+  const visited = new Set<string>([toIndexedType(declaration).fullName]);
+  let current: PartialDeclaration = declaration;
+  let typeArguments = new Map<string, string>();
+
+  while (current.type.baseList.length > 0) {
+    const reference = current.type.baseList[0];
+    const base = resolveTypeReference(index, reference, current).find((t) => t.type.kind === "class");
+    if (!base || visited.has(base.fullName)) {
+      break;
+    }
+    visited.add(base.fullName);
+
+    const typeArgumentList = parseTypeReference(reference).typeArguments;
+    const previous = typeArguments;
+    typeArguments = new Map(
+      getTypeParameterNames(base.type.typeParameters).map((name, i) => [
+        name,
+        substituteTypeParameters(typeArgumentList[i] ?? name, previous),
+      ])
+    );
+    chain.push({ file: base.file, type: base.type, typeArguments });
+    current = base;
+  }
+  return chain;
+}
+
+/**
+ * Every interface the declarations of an interface inherit from, directly or indirectly,
+ * nearest first and each once. `typeArguments` maps the interface's own type parameters.
+ */
+export function getInheritedInterfaces(
+  index: TypeIndex,
+  declarations: PartialDeclaration[],
+  reference?: string
+): InheritedInterface[] {
+  const inherited: InheritedInterface[] = [];
+  const visited = new Set(declarations.map((d) => toIndexedType(d).fullName));
+  const queue = [{ declarations, typeArguments: getTypeArguments(declarations[0]?.type, reference) }];
+
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    for (const declaration of current.declarations) {
+      for (const written of declaration.type.baseList) {
+        const reference = substituteTypeParameters(written, current.typeArguments);
+        const found = resolveTypeReference(index, written, declaration).filter((t) => t.type.kind === "interface");
+        const key = found[0]?.fullName ?? parseTypeReference(reference).name;
+        if (visited.has(key)) {
+          continue;
+        }
+        visited.add(key);
+
+        const next: InheritedInterface = {
+          reference,
+          declarations: found,
+          typeArguments: getTypeArguments(found[0]?.type, reference),
+        };
+        inherited.push(next);
+        queue.push(next);
+      }
+    }
+  }
+  return inherited;
+}
+
+/**
+ * Index entry for a declaration, whether or not its file is indexed
+ */
+function toIndexedType(declaration: PartialDeclaration): IndexedType {
+  const indexed = createTypeIndex([declaration.file]);
+  return (
+    getIndexedTypes(indexed).find((t) => t.type.start === declaration.type.start) ?? {
+      ...declaration,
+      fullName: declaration.type.name,
+      arity: getTypeParameterNames(declaration.type.typeParameters).length,
+    }
+  );
+}
+
+/**
+ * The type parameters of a declaration mapped to the arguments of a reference to it
+ */
+function getTypeArguments(type: TypeDeclaration | undefined, reference = ""): Map<string, string> {
+  const typeArguments = parseTypeReference(reference).typeArguments;
+  return new Map(
+    getTypeParameterNames(type?.typeParameters ?? null).map((name, i) => [name, typeArguments[i] ?? name])
+  );
+}
+
+/**
+ * Names a reference is looked up in, most specific first: the containing types,
+ * each enclosing namespace and finally the global namespace
+ */
+function getLookupPrefixes(context: ReferenceContext): string[] {
+  const prefixes: string[] = [];
+  const type = context.type;
+  if (type) {
+    const allTypes = getAllTypes(parseCSharp(context.file.code));
+    const containing = allTypes
+      .filter((t) => t.start <= type.start && type.end <= t.end)
+      .map((t) => t.name);
+    for (let i = containing.length; i > 0; i--) {
+      prefixes.push([type.namespace, ...containing.slice(0, i)].filter((p) => p).join("."));
+    }
+  }
+
+  const namespace =
+    type?.namespace ?? getAllNamespaces(parseCSharp(context.file.code))[0]?.name ?? null;
+  const parts = namespace ? namespace.split(".") : [];
+  for (let i = parts.length; i > 0; i--) {
+    prefixes.push(parts.slice(0, i).join("."));
+  }
+  prefixes.push("");
+  return prefixes;
+}
+
+function getFileUsings(file: SourceFile): UsingDirective[] {
+  const unit = parseCSharp(file.code);
+  return [...unit.usings, ...getAllNamespaces(unit).flatMap((ns) => ns.usings)];
+}
@@ -0,0 +1,398 @@
+/**
+ * Working out which using directives generated code needs
+ */
+import { tokenize } from "./csharpTokenizer";
+import { parseCSharp, getAllNamespaces, UsingDirective } from "./csharpSyntax";
+import { TextChange, detectLineEnding, getLineEnd, getLineStart } from "./textChanges";
+
+/**
+ * Usings every file of a project already sees: `global using` directives and csproj `<Using>` items
+ */
+export interface GlobalUsings {
+  namespaces: string[];
+  aliases: string[];
+}
+
+export interface UsingContext {
+  /** Namespace of the generated file; types in it and its parents need no using */
+  namespace: string | null;
+  /** Global usings of the project */
+  globalUsings?: GlobalUsings;
+  /**
+   * Namespaces declaring a type with the given name (the global namespace is ""),
+   * or undefined when the type is not known, e.g. from looking through the workspace
+   */
+  resolveType?: (name: string) => string[] | undefined;
+}
+
+/**
+ * Namespaces of common framework types, used when the workspace does not declare a type
+ */
+const WELL_KNOWN_TYPES = new Map<string, string[]>();
+
+function addWellKnownTypes(namespace: string, names: string[]): void {
+  for (const name of names) {
+    WELL_KNOWN_TYPES.set(name, [...(WELL_KNOWN_TYPES.get(name) ?? []), namespace]);
+  }
+}
+
+addWellKnownTypes("System", [
+  "Action", "Func", "Predicate", "Comparison", "Converter", "EventHandler", "EventArgs",
+  "DateTime", "DateTimeOffset", "DateOnly", "TimeOnly", "TimeSpan", "Guid", "Uri", "Version",
+  "Exception", "IDisposable", "IAsyncDisposable", "IComparable", "IEquatable", "IFormattable",
+  "IFormatProvider", "IServiceProvider", "IObservable", "IObserver", "IProgress", "Nullable",
+  "Lazy", "Tuple", "ValueTuple", "Span", "ReadOnlySpan", "Memory", "ReadOnlyMemory", "Type",
+  "Attribute", "Delegate", "Enum", "Array", "Index", "Range", "Half", "Random", "Object",
+  "String", "Boolean", "Byte", "SByte", "Char", "Decimal", "Double", "Single", "Int16", "Int32",
+  "Int64", "UInt16", "UInt32", "UInt64", "IntPtr", "UIntPtr", "Int128", "UInt128",
+]);
+addWellKnownTypes("System.Collections", ["IEnumerable", "IEnumerator", "ICollection", "IList", "IDictionary"]);
+addWellKnownTypes("System.Collections.Generic", [
+  "IEnumerable", "IEnumerator", "ICollection", "IList", "IDictionary", "IReadOnlyCollection",
+  "IReadOnlyList", "IReadOnlyDictionary", "ISet", "IReadOnlySet", "IAsyncEnumerable",
+  "IAsyncEnumerator", "IComparer", "IEqualityComparer", "List", "Dictionary", "HashSet",
+  "SortedSet", "SortedDictionary", "SortedList", "Queue", "Stack", "LinkedList", "KeyValuePair",
+  "PriorityQueue",
+]);
+addWellKnownTypes("System.Collections.ObjectModel", [
+  "Collection", "ReadOnlyCollection", "ReadOnlyDictionary", "ObservableCollection",
+]);
+addWellKnownTypes("System.Collections.Immutable", [
+  "ImmutableArray", "ImmutableList", "ImmutableDictionary", "ImmutableHashSet", "IImmutableList",
+  "IImmutableDictionary", "IImmutableSet",
+]);
+addWellKnownTypes("System.Collections.Concurrent", [
+  "ConcurrentDictionary", "ConcurrentQueue", "ConcurrentStack", "ConcurrentBag",
+]);
+addWellKnownTypes("System.ComponentModel", [
+  "INotifyPropertyChanged", "PropertyChangedEventHandler", "PropertyChangedEventArgs",
+]);
+addWellKnownTypes("System.Diagnostics.CodeAnalysis", [
+  "AllowNullAttribute", "DisallowNullAttribute", "MaybeNullAttribute", "NotNullAttribute",
+  "MaybeNullWhenAttribute", "NotNullWhenAttribute", "NotNullIfNotNullAttribute",
+]);
+addWellKnownTypes("System.IO", [
+  "Stream", "MemoryStream", "FileStream", "TextReader", "TextWriter", "StreamReader",
+  "StreamWriter", "FileInfo", "DirectoryInfo",
+]);
+addWellKnownTypes("System.Linq", [
+  "IQueryable", "IOrderedQueryable", "IOrderedEnumerable", "IGrouping", "ILookup",
+]);
+addWellKnownTypes("System.Linq.Expressions", ["Expression"]);
+addWellKnownTypes("System.Net.Http", ["HttpClient", "HttpRequestMessage", "HttpResponseMessage", "HttpContent"]);
+addWellKnownTypes("System.Runtime.CompilerServices", [
+  "CallerMemberNameAttribute", "CallerFilePathAttribute", "CallerLineNumberAttribute",
+  "EnumeratorCancellationAttribute",
+]);
+addWellKnownTypes("System.Text", ["StringBuilder", "Encoding"]);
+addWellKnownTypes("System.Text.Json", ["JsonDocument", "JsonElement", "JsonSerializerOptions"]);
+addWellKnownTypes("System.Threading", ["CancellationToken", "CancellationTokenSource", "SemaphoreSlim"]);
+addWellKnownTypes("System.Threading.Tasks", ["Task", "ValueTask", "TaskCompletionSource"]);
+
+const WELL_KNOWN_NAMESPACES = new Set([...WELL_KNOWN_TYPES.values()].flat());
+
+/**
+ * Namespaces `<ImplicitUsings>` adds for each SDK
+ */
+const IMPLICIT_USINGS: Record<string, string[]> = {
+  "Microsoft.NET.Sdk": [
+    "System",
+    "System.Collections.Generic",
+    "System.IO",
+    "System.Linq",
+    "System.Net.Http",
+    "System.Threading",
+    "System.Threading.Tasks",
+  ],
+  "Microsoft.NET.Sdk.Web": [
+    "System.Net.Http.Json",
+    "Microsoft.AspNetCore.Builder",
+    "Microsoft.AspNetCore.Hosting",
+    "Microsoft.AspNetCore.Http",
+    "Microsoft.AspNetCore.Routing",
+    "Microsoft.Extensions.Configuration",
+    "Microsoft.Extensions.DependencyInjection",
+    "Microsoft.Extensions.Hosting",
+    "Microsoft.Extensions.Logging",
+  ],
+  "Microsoft.NET.Sdk.Worker": [
+    "Microsoft.Extensions.Configuration",
+    "Microsoft.Extensions.DependencyInjection",
+    "Microsoft.Extensions.Hosting",
+    "Microsoft.Extensions.Logging",
+  ],
+};
+
+/** Predefined types; a name written after one of these is being declared */
+const PREDEFINED_TYPES = new Set([
+  "bool", "byte", "sbyte", "char", "decimal", "double", "float", "int", "uint", "nint", "nuint",
+  "long", "ulong", "short", "ushort", "object", "string", "void", "dynamic",
+]);
+
+const KEYWORDS = new Set([
+  ...PREDEFINED_TYPES,
+  "ref", "out", "in", "params", "this", "scoped", "readonly", "event", "new", "static",
+  "abstract", "virtual", "public", "private", "protected", "internal", "where", "class",
+  "struct", "unmanaged", "notnull", "default", "null", "true", "false", "typeof", "nameof",
+  "sizeof", "get", "set", "init", "interface", "delegate", "global", "record", "enum",
+]);
+
+/**
+ * The `global using` directives of a file
+ */
+export function getGlobalUsings(code: string): GlobalUsings {
+  return toGlobalUsings(parseCSharp(code).usings.filter((u) => u.isGlobal));
+}
+
+/**
+ * The namespaces and aliases that `global using` directives bring into scope
+ */
+export function toGlobalUsings(directives: UsingDirective[]): GlobalUsings {
+  const usings = directives.filter((u) => !u.isStatic);
+  return {
+    namespaces: usings.filter((u) => !u.alias).map((u) => u.name),
+    aliases: usings.filter((u) => u.alias).map((u) => u.alias!),
+  };
+}
+
+/**
+ * The global usings a project file declares: `<Using>` items, plus the SDK's
+ * namespaces when `<ImplicitUsings>` is enabled
+ */
+export function getProjectGlobalUsings(projectXml: string): GlobalUsings {
+  const namespaces = new Set<string>();
+  const aliases = new Set<string>();
+
+  const implicitUsings = projectXml.match(/<ImplicitUsings>\s*(\w+)\s*<\/ImplicitUsings>/i);
+  if (implicitUsings && /^(enable|true)$/i.test(implicitUsings[1])) {
+    const sdk = projectXml.match(/<Project\b[^>]*\bSdk\s*=\s*"([^"]+)"/i)?.[1] ?? "Microsoft.NET.Sdk";
+    const sdkNamespaces = IMPLICIT_USINGS[sdk.split("/")[0]] ?? [];
+    const common = sdk.startsWith("Microsoft.NET.Sdk") ? IMPLICIT_USINGS["Microsoft.NET.Sdk"] : [];
+    [...common, ...sdkNamespaces].forEach((ns) => namespaces.add(ns));
+  }
+
+  for (const item of projectXml.matchAll(/<Using\b([^>]*?)\/?>/g)) {
+    const attributes = parseXmlAttributes(item[1]);
+    if (attributes.Remove) {
+      namespaces.delete(attributes.Remove);
+    } else if (attributes.Include && attributes.Static?.toLowerCase() !== "true") {
+      if (attributes.Alias) {
+        aliases.add(attributes.Alias);
+      } else {
+        namespaces.add(attributes.Include);
+      }
+    }
+  }
+
+  return { namespaces: [...namespaces], aliases: [...aliases] };
+}
+
+/**
+ * Merge the global usings of several files
+ */
+export function mergeGlobalUsings(usings: GlobalUsings[]): GlobalUsings {
+  return {
+    namespaces: [...new Set(usings.flatMap((u) => u.namespaces))],
+    aliases: [...new Set(usings.flatMap((u) => u.aliases))],
+  };
+}
+
+/**
+ * Names of the types a piece of generated code refers to, e.g. `Task<Order> Find(Guid id);`
+ * gives Task, Order and Guid. Qualified names give their first segment, which may be an alias.
+ */
+export function getReferencedTypeNames(code: string): Set<string> {
+  const tokens = tokenize(code);
+  const names = new Set<string>();
+  // Whether each open `[` starts an attribute list rather than an array rank
+  const brackets: boolean[] = [];
+  const attributeCloses = new Set<number>();
+
+  const endsType = (index: number): boolean => {
+    const token = tokens[index];
+    if (!token) {
+      return false;
+    }
+    if (token.kind === "word") {
+      return !KEYWORDS.has(token.text) || PREDEFINED_TYPES.has(token.text);
+    }
+    return [">", "?", ")", "*"].includes(token.text) || (token.text === "]" && !attributeCloses.has(index));
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.text === "[") {
+      brackets.push(!endsType(i - 1));
+      continue;
+    }
+    if (token.text === "]") {
+      if (brackets.pop()) {
+        attributeCloses.add(i);
+      }
+      continue;
+    }
+    if (token.kind !== "word" || KEYWORDS.has(token.text)) {
+      continue;
+    }
+
+    const previous = tokens[i - 1]?.text;
+    const next = tokens[i + 1]?.text;
+    if (previous === "." || previous === "::") {
+      continue; // the rest of a qualified name or a member access
+    }
+    const isDeclaredName =
+      endsType(i - 1) &&
+      (next === undefined || ["{", ";", "=", ",", ")", "]", "(", "<", "=>"].includes(next));
+    if (!isDeclaredName) {
+      names.add(token.text.replace(/^@/, ""));
+    }
+  }
+  return names;
+}
+
+/**
+ * Types named in the `cref` attributes of documentation comment lines
+ */
+export function getDocumentationReferences(lines: string[]): Set<string> {
+  const names = new Set<string>();
+  for (const line of lines) {
+    for (const match of line.matchAll(/\bcref\s*=\s*"(?:\w:)?([^"]*)"/g)) {
+      // Member references such as `Order.Total` or `Find(Guid)` name their type first
+      const reference = match[1].replace(/\{/g, "<").replace(/\}/g, ">");
+      getReferencedTypeNames(reference).forEach((name) => names.add(name));
+    }
+  }
+  return names;
+}
+
+/**
+ * The using directives, out of `usings`, that code referring to `typeNames` needs.
+ *
+ * Static usings and usings the project already has globally are dropped, aliases are kept
+ * when referred to, and namespaces when they declare one of the types. When a type cannot be
+ * resolved, namespaces outside the well-known framework ones are kept, as it may come from them.
+ */
+export function getRequiredUsings(
+  usings: UsingDirective[],
+  typeNames: Iterable<string>,
+  context: UsingContext
+): UsingDirective[] {
+  const globalNamespaces = new Set(context.globalUsings?.namespaces ?? []);
+  const globalAliases = new Set(context.globalUsings?.aliases ?? []);
+  const localAliases = new Set(usings.filter((u) => u.alias).map((u) => u.alias!));
+  const namespaceRoots = new Set(
+    [...usings.map((u) => u.name), ...WELL_KNOWN_NAMESPACES].map((ns) => ns.split(".")[0])
+  );
+
+  const required = new Set<string>();
+  let hasUnresolvedType = false;
+  for (const name of typeNames) {
+    if (localAliases.has(name)) {
+      required.add(name);
+      continue;
+    }
+    if (globalAliases.has(name) || namespaceRoots.has(name)) {
+      continue;
+    }
+
+    const candidates = resolveType(name, context);
+    if (!candidates) {
+      hasUnresolvedType = true;
+    } else if (!candidates.some((ns) => isVisible(ns, context.namespace, globalNamespaces))) {
+      candidates.forEach((ns) => required.add(ns));
+    }
+  }
+
+  const seen = new Set<string>();
+  return usings.filter((u) => {
+    if (u.isGlobal || u.isStatic || seen.has(u.text)) {
+      return false;
+    }
+    seen.add(u.text);
+    if (u.alias) {
+      return required.has(u.alias) && !globalAliases.has(u.alias);
+    }
+    if (globalNamespaces.has(u.name)) {
+      return false;
+    }
+    return required.has(u.name) || (hasUnresolvedType && !WELL_KNOWN_NAMESPACES.has(u.name));
+  });
+}
+
+/**
+ * The edit adding `using <namespace>;` to a file, or null when the file or the project already
+ * has it or the file's namespace is inside it. The directive is sorted in among the file's
+ * usings, `System` namespaces first; a file without usings gets it on top.
+ */
+export function getAddUsingChange(
+  code: string,
+  namespace: string,
+  globalUsings?: GlobalUsings
+): TextChange | null {
+  const unit = parseCSharp(code);
+  const namespaces = getAllNamespaces(unit);
+  const fileUsings = [...unit.usings, ...namespaces.flatMap((ns) => ns.usings)];
+  const fileNamespace = namespaces[0]?.name ?? null;
+  if (
+    fileUsings.some((u) => u.name === namespace && !u.alias && !u.isStatic) ||
+    isVisible(namespace, fileNamespace, new Set(globalUsings?.namespaces ?? []))
+  ) {
+    return null;
+  }
+
+  const eol = detectLineEnding(code);
+  const directive = `using ${namespace};`;
+  const sorted = unit.usings.filter((u) => !u.isGlobal && !u.alias && !u.isStatic);
+  const next = sorted.find((u) => compareNamespaces(namespace, u.name) < 0);
+  if (next) {
+    const lineStart = getLineStart(code, next.start);
+    return { start: lineStart, end: lineStart, newText: `${directive}${eol}` };
+  }
+  const last = sorted[sorted.length - 1] ?? unit.usings[unit.usings.length - 1];
+  if (last) {
+    const lineEnd = getLineEnd(code, last.end);
+    return { start: lineEnd, end: lineEnd, newText: `${eol}${directive}` };
+  }
+  const first = [...namespaces, ...unit.types].sort((a, b) => a.start - b.start)[0];
+  const start = first ? getLineStart(code, first.start) : 0;
+  return { start, end: start, newText: `${directive}${eol}${eol}` };
+}
+
+/**
+ * Order of using directives: `System` namespaces first, then alphabetical
+ */
+function compareNamespaces(a: string, b: string): number {
+  const isSystem = (ns: string) => ns === "System" || ns.startsWith("System.");
+  if (isSystem(a) !== isSystem(b)) {
+    return isSystem(a) ? -1 : 1;
+  }
+  return a.localeCompare(b);
+}
+
+function resolveType(name: string, context: UsingContext): string[] | undefined {
+  const attributeName = name.endsWith("Attribute") ? name : `${name}Attribute`;
+  const resolved = context.resolveType?.(name) ?? context.resolveType?.(attributeName);
+  if (resolved && resolved.length > 0) {
+    return resolved;
+  }
+  return WELL_KNOWN_TYPES.get(name) ?? WELL_KNOWN_TYPES.get(attributeName);
+}
+
+/**
+ * Whether types of a namespace can be used without a using: it is global,
+ * the file's own namespace or one of its parents, or a project-wide global using
+ */
+function isVisible(namespace: string, fileNamespace: string | null, globalNamespaces: Set<string>): boolean {
+  if (namespace === "" || globalNamespaces.has(namespace)) {
+    return true;
+  }
+  return !!fileNamespace && (fileNamespace === namespace || fileNamespace.startsWith(`${namespace}.`));
+}
+
+function parseXmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/(\w+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = match[2].trim();
+  }
+  return attributes;
+}
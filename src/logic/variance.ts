@@ -0,0 +1,232 @@
+/**
+ * Variance inference for the type parameters of generated generic interfaces
+ */
+import { tokenize, Token } from "./csharpTokenizer";
+import { parseParameterList } from "./csharpSyntax";
+
+/**
+ * Where a type occurs in a signature: 1 output (return values, getters),
+ * -1 input (parameters, setters), 0 both or by reference
+ */
+export type Polarity = 1 | -1 | 0;
+
+/**
+ * A type written in a member signature and the position it occurs in
+ */
+export interface TypeUsage {
+  type: string;
+  polarity: Polarity;
+}
+
+export type Variance = "in" | "out";
+
+/**
+ * Variance of well-known generic types per type argument, 1 covariant, -1 contravariant.
+ * Any other generic type is treated as invariant in all its arguments.
+ */
+const KNOWN_VARIANCE: Record<string, (index: number, count: number) => Polarity> = {
+  IEnumerable: () => 1,
+  IEnumerator: () => 1,
+  IAsyncEnumerable: () => 1,
+  IAsyncEnumerator: () => 1,
+  IQueryable: () => 1,
+  IOrderedEnumerable: () => 1,
+  IReadOnlyCollection: () => 1,
+  IReadOnlyList: () => 1,
+  IReadOnlySet: () => 0,
+  IGrouping: () => 1,
+  IReadOnlyDictionary: (index) => (index === 1 ? 1 : 0),
+  IComparer: () => -1,
+  IEqualityComparer: () => -1,
+  IComparable: () => -1,
+  IEquatable: () => 0,
+  IObservable: () => 1,
+  IObserver: () => -1,
+  Action: () => -1,
+  Predicate: () => -1,
+  Comparison: () => -1,
+  Converter: (index) => (index === 0 ? -1 : 1),
+  Func: (index, count) => (index === count - 1 ? 1 : -1),
+};
+
+/**
+ * Infer the variance each type parameter can safely be declared with.
+ * A parameter used only in output positions is `out`, only in input positions `in`;
+ * unused or mixed parameters stay invariant (null).
+ */
+export function inferVariance(
+  typeParameters: string[],
+  usages: TypeUsage[]
+): Map<string, Variance | null> {
+  const seen = new Map<string, Set<Polarity>>(typeParameters.map((p) => [p, new Set()]));
+  for (const usage of usages) {
+    const tokens = tokenize(usage.type);
+    visitType(tokens, 0, usage.polarity, seen);
+  }
+
+  const result = new Map<string, Variance | null>();
+  for (const [name, polarities] of seen) {
+    if (polarities.size !== 1 || polarities.has(0)) {
+      result.set(name, null);
+    } else {
+      result.set(name, polarities.has(1) ? "out" : "in");
+    }
+  }
+  return result;
+}
+
+/**
+ * Usages of the types in a parameter list; `ref`, `out` and `in` parameters are invariant
+ */
+export function getParameterUsages(parameters: string): TypeUsage[] {
+  return parseParameterList(parameters).map((parameter) => ({
+    type: parameter.type,
+    polarity: parameter.modifiers.some((m) => m === "ref" || m === "out" || m === "in") ? 0 : -1,
+  }));
+}
+
+/**
+ * Constraint types must be contravariantly valid, so each type in the `where` clauses
+ * of a method counts as an input; `class`, `struct`, `new()` and the like name no type
+ */
+export function getConstraintUsages(constraints: string | undefined): TypeUsage[] {
+  const text = constraints ?? "";
+  const tokens = tokenize(text);
+  const usages: TypeUsage[] = [];
+  let pos = 0;
+  while (pos < tokens.length) {
+    if (tokens[pos].text === "where" || tokens[pos].text === ",") {
+      // Skip `where U :`, or the comma between two constraints
+      pos += tokens[pos].text === "where" ? 3 : 1;
+      continue;
+    }
+    const end = skipConstraint(tokens, pos);
+    if (!CONSTRAINT_KEYWORDS.has(tokens[pos].text)) {
+      usages.push({ type: text.substring(tokens[pos].start, tokens[end - 1].end), polarity: -1 });
+    }
+    pos = end;
+  }
+  return usages;
+}
+
+const CONSTRAINT_KEYWORDS = new Set(["class", "struct", "new", "notnull", "unmanaged", "default", "allows"]);
+
+/**
+ * Index just past one constraint, at the next top-level comma or `where`
+ */
+function skipConstraint(tokens: Token[], pos: number): number {
+  let depth = 0;
+  while (pos < tokens.length) {
+    const text = tokens[pos].text;
+    if (depth === 0 && (text === "," || text === "where")) {
+      return pos;
+    }
+    if (text === "<" || text === "(" || text === "[") {
+      depth++;
+    } else if (text === ">" || text === ")" || text === "]") {
+      depth--;
+    }
+    pos++;
+  }
+  return pos;
+}
+
+/**
+ * Walk one type reference, recording the polarity of each type parameter it mentions
+ */
+function visitType(
+  tokens: Token[],
+  pos: number,
+  polarity: Polarity,
+  seen: Map<string, Set<Polarity>>
+): number {
+  if (tokens[pos]?.text === "ref") {
+    // ref returns are invariant
+    return visitType(tokens, pos + (tokens[pos + 1]?.text === "readonly" ? 2 : 1), 0, seen);
+  }
+
+  if (tokens[pos]?.text === "(") {
+    // Tuples are value types, so their elements are invariant
+    pos++;
+    while (pos < tokens.length && tokens[pos].text !== ")") {
+      pos = visitType(tokens, pos, 0, seen);
+      while (pos < tokens.length && tokens[pos].text !== "," && tokens[pos].text !== ")") {
+        pos++; // element name
+      }
+      if (tokens[pos]?.text === ",") {
+        pos++;
+      }
+    }
+    return visitSuffixes(tokens, pos + 1);
+  }
+
+  let name = tokens[pos]?.text ?? "";
+  const qualified = tokens[pos + 1]?.text === "." || tokens[pos + 1]?.text === "::";
+  pos++;
+  while (tokens[pos]?.text === "." || tokens[pos]?.text === "::") {
+    name = tokens[pos + 1]?.text ?? "";
+    pos += 2;
+  }
+
+  if (tokens[pos]?.text === "<") {
+    const args: number[] = [];
+    pos++;
+    while (pos < tokens.length && tokens[pos].text !== ">") {
+      args.push(pos);
+      pos = skipTypeArgument(tokens, pos);
+      if (tokens[pos]?.text === ",") {
+        pos++;
+      }
+    }
+    const variance = KNOWN_VARIANCE[name];
+    args.forEach((argPos, index) => {
+      const argVariance = variance ? variance(index, args.length) : 0;
+      visitType(tokens, argPos, (polarity * argVariance) as Polarity, seen);
+    });
+    pos++;
+  } else if (!qualified && seen.has(name)) {
+    seen.get(name)!.add(polarity);
+  }
+
+  return visitSuffixes(tokens, pos);
+}
+
+/**
+ * Skip array ranks and nullable markers; arrays keep the element's polarity
+ */
+function visitSuffixes(tokens: Token[], pos: number): number {
+  while (tokens[pos]?.text === "[" || tokens[pos]?.text === "?") {
+    pos = tokens[pos].text === "[" ? skipBrackets(tokens, pos) : pos + 1;
+  }
+  return pos;
+}
+
+function skipTypeArgument(tokens: Token[], pos: number): number {
+  let depth = 0;
+  while (pos < tokens.length) {
+    const text = tokens[pos].text;
+    if (depth === 0 && (text === "," || text === ">")) {
+      return pos;
+    }
+    if (text === "<" || text === "(" || text === "[") {
+      depth++;
+    } else if (text === ">" || text === ")" || text === "]") {
+      depth--;
+    }
+    pos++;
+  }
+  return pos;
+}
+
+function skipBrackets(tokens: Token[], pos: number): number {
+  let depth = 0;
+  while (pos < tokens.length) {
+    if (tokens[pos].text === "[") {
+      depth++;
+    } else if (tokens[pos].text === "]" && --depth === 0) {
+      return pos + 1;
+    }
+    pos++;
+  }
+  return pos;
+}
@@ -7,7 +7,13 @@ import {
   findImplementedInterfaces,
   generateMethodSignature,
   generatePropertySignature,
+  getAddMethodToInterfaceChange,
+  findMethodAtOffset,
+  findPropertyAtOffset,
+  getInheritDocChange,
 } from "../logic/addToInterface";
+import { TypeKind } from "../logic/csharpSyntax";
+import { applyTextChanges } from "../logic/textChanges";
 
 suite("Add Method to Interface Tests", () => {
   suite("parseMethodFromLine", () => {
@@ -71,7 +77,62 @@ suite("Add Method to Interface Tests", () => {
     });
   });
 
+  suite("findMethodAtOffset", () => {
+    const classText = `public class MyClass : IMyInterface
+{
+    public MyClass() { }
+
+    public string GetName(
+        int id)
+    {
+        return "";
+    }
+
+    private void Hidden() { }
+}`;
+
+    test("Finds method on any line of its signature", () => {
+      const result = findMethodAtOffset(classText, classText.indexOf("int id"));
+
+      assert.ok(result);
+      assert.strictEqual(result.name, "GetName");
+      assert.strictEqual(result.parameters, "int id");
+    });
+
+    test("Ignores cursor inside method body", () => {
+      const result = findMethodAtOffset(classText, classText.indexOf("return"));
+      assert.strictEqual(result, null);
+    });
+
+    test("Ignores constructors and non-public methods", () => {
+      assert.strictEqual(findMethodAtOffset(classText, classText.indexOf("MyClass()")), null);
+      assert.strictEqual(findMethodAtOffset(classText, classText.indexOf("Hidden")), null);
+    });
+
+    test("Finds property under cursor", () => {
+      const code = `public class MyClass
+{
+    public int Count { get; set; }
+}`;
+      const result = findPropertyAtOffset(code, code.indexOf("Count"));
+
+      assert.ok(result);
+      assert.strictEqual(result.name, "Count");
+    });
+  });
+
   suite("findImplementedInterfaces", () => {
+    test("Uses the class under the cursor", () => {
+      const classCode = `public class First : IFirst { }
+public class Second : ISecond
+{
+    public void Work() { }
+}`;
+      const result = findImplementedInterfaces(classCode, classCode.indexOf("Work"));
+
+      assert.deepStrictEqual(result, ["ISecond"]);
+    });
+
     test("Finds single interface", () => {
       const classCode = "public class MyClass : IMyInterface { }";
       const result = findImplementedInterfaces(classCode);
@@ -106,6 +167,25 @@ suite("Add Method to Interface Tests", () => {
 
       assert.deepStrictEqual(result, ["IMyInterface"]);
     });
+
+    test("Classifies entries by their declarations", () => {
+      const classCode = "public class MyClass : IdentityBase, Repository, IUnknown { }";
+      const kinds = new Map<string, TypeKind>([
+        ["IdentityBase", "class"],
+        ["Repository", "interface"],
+      ]);
+      const result = findImplementedInterfaces(classCode, undefined, (reference) => kinds.get(reference));
+
+      assert.deepStrictEqual(result, ["Repository", "IUnknown"]);
+    });
+
+    test("Treats unresolved entries after the first as interfaces", () => {
+      const classCode = "public class MyClass : ServiceBase, Disposable { }";
+      const structCode = "public struct Point : Equatable<Point> { }";
+
+      assert.deepStrictEqual(findImplementedInterfaces(classCode, undefined, () => undefined), ["Disposable"]);
+      assert.deepStrictEqual(findImplementedInterfaces(structCode, 0), ["Equatable<Point>"]);
+    });
   });
 
   suite("generateMethodSignature", () => {
@@ -144,6 +224,13 @@ suite("Add Method to Interface Tests", () => {
 
       assert.strictEqual(result, "T GetValue<T>(string key);");
     });
+
+    test("Keeps the constraints of a generic method", () => {
+      const line = "public T Get<T>(int id) where T : class, new() { return new T(); }";
+      const result = generateMethodSignature(parseMethodFromLine(line, line)!);
+
+      assert.strictEqual(result, "T Get<T>(int id) where T : class, new();");
+    });
   });
 
   suite("addMethodToInterface", () => {
@@ -212,8 +299,147 @@ suite("Add Method to Interface Tests", () => {
       };
       const result = addMethodToInterface(interfaceCode, method);
 
-      assert.ok(result.includes("string GetName();"));
-      assert.ok(result.includes("void DoWork();"));
+      assert.strictEqual(
+        result,
+        `namespace MyNamespace
+{
+    public interface IMyInterface
+    {
+        string GetName();
+        void DoWork();
+    }
+}`
+      );
+    });
+
+    test("Adds method to empty interface in a file-scoped namespace", () => {
+      const interfaceCode = `namespace MyNamespace;
+
+public interface IMyInterface
+{
+}`;
+      const method = {
+        returnType: "void",
+        name: "DoWork",
+        genericParams: null,
+        parameters: "",
+      };
+      const result = addMethodToInterface(interfaceCode, method);
+
+      assert.strictEqual(
+        result,
+        `namespace MyNamespace;
+
+public interface IMyInterface
+{
+    void DoWork();
+}`
+      );
+    });
+
+    test("Copies documentation and leaves inheritdoc on the class", () => {
+      const classCode = `public class Service : IService
+{
+    /// <summary>Does work.</summary>
+    public void DoWork() { }
+}`;
+      const method = findMethodAtOffset(classCode, classCode.indexOf("DoWork"))!;
+      const interfaceCode = `public interface IService
+{
+    void Start();
+}`;
+
+      assert.strictEqual(
+        addMethodToInterface(interfaceCode, method),
+        `public interface IService
+{
+    void Start();
+    /// <summary>Does work.</summary>
+    void DoWork();
+}`
+      );
+
+      const change = getInheritDocChange(method)!;
+      assert.strictEqual(
+        applyTextChanges(classCode, [change]),
+        `public class Service : IService
+{
+    /// <inheritdoc />
+    public void DoWork() { }
+}`
+      );
+      assert.strictEqual(getInheritDocChange({}), null);
+    });
+
+    test("Produces an insertion after the last member only", () => {
+      const interfaceCode = `public interface IMyInterface
+{
+    string GetName(); // trailing comment
+
+}`;
+      const method = {
+        returnType: "void",
+        name: "DoWork",
+        genericParams: null,
+        parameters: "",
+      };
+      const change = getAddMethodToInterfaceChange(interfaceCode, method);
+      const insertAt = interfaceCode.indexOf("\n", interfaceCode.indexOf("GetName"));
+
+      assert.deepStrictEqual(change, {
+        start: insertAt,
+        end: insertAt,
+        newText: "\n    void DoWork();",
+      });
+    });
+
+    test("Adds to the named interface when a file declares several", () => {
+      const interfaceCode = `public interface IFirst
+{
+    void A();
+}
+
+public interface ISecond
+{
+    void B();
+}`;
+      const method = {
+        returnType: "void",
+        name: "C",
+        genericParams: null,
+        parameters: "",
+      };
+      const result = addMethodToInterface(interfaceCode, method, "ISecond");
+
+      assert.strictEqual(
+        result,
+        `public interface IFirst
+{
+    void A();
+}
+
+public interface ISecond
+{
+    void B();
+    void C();
+}`
+      );
+    });
+
+    test("Allows overloads with different parameters", () => {
+      const interfaceCode = `public interface IMyInterface
+{
+    void DoWork();
+}`;
+      const method = {
+        returnType: "void",
+        name: "DoWork",
+        genericParams: null,
+        parameters: "int count",
+      };
+      const result = addMethodToInterface(interfaceCode, method);
+
+      assert.ok(result.includes("void DoWork(int count);"));
     });
   });
 });
@@ -291,6 +517,17 @@ suite("Add Property to Interface Tests", () => {
 
       assert.strictEqual(result, "List<int> Numbers { get; set; }");
     });
+
+    test("Generates property signature with declared accessors", () => {
+      const property = {
+        type: "string",
+        name: "Name",
+        accessors: ["get" as const, "init" as const],
+      };
+      const result = generatePropertySignature(property);
+
+      assert.strictEqual(result, "string Name { get; init; }");
+    });
   });
 
   suite("addPropertyToInterface", () => {
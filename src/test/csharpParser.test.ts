@@ -0,0 +1,312 @@
+import * as assert from "assert";
+import {
+  extractMethods,
+  extractProperties,
+  extractEvents,
+  extractFields,
+  extractNamespace,
+  extractUsings,
+  parseTypeReference,
+  substituteTypeParameters,
+} from "../logic/csharpParser";
+import { parseCSharp, getAllTypes, parseParameterList } from "../logic/csharpSyntax";
+import { tokenize } from "../logic/csharpTokenizer";
+import { parseInterfaceMembers } from "../logic/implementInterface";
+import { findImplementedInterfaces } from "../logic/addToInterface";
+
+suite("C# Parser Tests", () => {
+  suite("tokenize", () => {
+    test("Skips comments and keeps string literals whole", () => {
+      const code = `// public void Hidden() { }
+/* public int Gone { get; } */
+var s = "public void NotAMethod() { }";
+var v = @"C:\\path ""quoted""";
+var i = $"{Format("{")} done";`;
+      const texts = tokenize(code).map((t) => t.text);
+
+      assert.ok(!texts.includes("Hidden"));
+      assert.ok(!texts.includes("Gone"));
+      assert.ok(!texts.includes("NotAMethod"));
+      assert.ok(texts.includes('"public void NotAMethod() { }"'));
+      assert.ok(texts.includes('$"{Format("{")} done"'));
+    });
+
+    test("Keeps only the first branch of #if blocks", () => {
+      const code = `#if DEBUG
+int a;
+#else
+int b;
+#endif
+#if false
+int c;
+#endif`;
+      const texts = tokenize(code).map((t) => t.text);
+
+      assert.ok(texts.includes("a"));
+      assert.ok(!texts.includes("b"));
+      assert.ok(!texts.includes("c"));
+    });
+
+    test("Splits closing angle brackets", () => {
+      const texts = tokenize("List<List<int>>").map((t) => t.text);
+      assert.deepStrictEqual(texts, ["List", "<", "List", "<", "int", ">", ">"]);
+    });
+  });
+
+  suite("parseCSharp", () => {
+    test("Builds namespaces, types and members", () => {
+      const code = `using System;
+
+namespace Outer
+{
+    namespace Inner
+    {
+        public class Service : BaseService, IService
+        {
+            private readonly ILogger _logger;
+            public Service(ILogger logger) { _logger = logger; }
+            public string Name { get; private set; }
+            public void Run() { }
+            public class Nested { public void Hidden() { } }
+        }
+    }
+}`;
+      const unit = parseCSharp(code);
+      const types = getAllTypes(unit);
+
+      assert.strictEqual(unit.usings.length, 1);
+      assert.strictEqual(unit.namespaces[0].namespaces[0].name, "Outer.Inner");
+      assert.deepStrictEqual(types.map((t) => t.name), ["Service", "Nested"]);
+      assert.deepStrictEqual(types[0].baseList, ["BaseService", "IService"]);
+      assert.deepStrictEqual(
+        types[0].members.map((m) => m.kind),
+        ["field", "constructor", "property", "method"]
+      );
+      assert.strictEqual(types[0].namespace, "Outer.Inner");
+    });
+
+    test("Parses file-scoped namespaces", () => {
+      const code = `namespace My.App;
+
+public record Person(string Name);`;
+      const unit = parseCSharp(code);
+
+      assert.strictEqual(unit.namespaces[0].name, "My.App");
+      assert.strictEqual(unit.namespaces[0].isFileScoped, true);
+      assert.strictEqual(unit.namespaces[0].types[0].kind, "record");
+      assert.strictEqual(unit.namespaces[0].types[0].parameters, "string Name");
+    });
+
+    test("Parses property accessors and indexers", () => {
+      const code = `public class C
+{
+    public int Count { get; init; }
+    public int Total => 42;
+    public string this[int index] { get => ""; set { } }
+}`;
+      const members = getAllTypes(parseCSharp(code))[0].members;
+
+      assert.strictEqual(members.length, 3);
+      assert.ok(members[0].kind === "property");
+      assert.deepStrictEqual(members[0].accessors.map((a) => a.kind), ["get", "init"]);
+      assert.ok(members[1].kind === "property");
+      assert.deepStrictEqual(members[1].accessors.map((a) => a.kind), ["get"]);
+      assert.ok(members[2].kind === "indexer");
+      assert.strictEqual(members[2].parameters, "int index");
+    });
+  });
+
+  suite("documentation comments", () => {
+    test("Records the /// block above a member, before its attributes", () => {
+      const code = `public class C\r
+{\r
+    // not documentation\r
+    /// <summary>\r
+    /// Runs.\r
+    /// </summary>\r
+    [Obsolete]\r
+    public void Run() { }\r
+\r
+    //// four slashes are a normal comment\r
+    public void Stop() { }\r
+}`;
+      const [run, stop] = getAllTypes(parseCSharp(code))[0].members;
+
+      assert.deepStrictEqual(run.documentation?.lines, [
+        "/// <summary>",
+        "/// Runs.",
+        "/// </summary>",
+      ]);
+      assert.strictEqual(
+        code.substring(run.documentation!.start, run.documentation!.end),
+        "/// <summary>\r\n    /// Runs.\r\n    /// </summary>"
+      );
+      assert.strictEqual(stop.documentation, null);
+    });
+  });
+
+  suite("parseParameterList", () => {
+    test("Splits parameters with attributes, modifiers and defaults", () => {
+      const parameters = parseParameterList(
+        `[NotNull] ref Dictionary<string, int> map, params string[] names, string sep = ",", out (int a, int b) pair`
+      );
+
+      assert.deepStrictEqual(
+        parameters.map((p) => [p.modifiers.join(" "), p.type, p.name, p.defaultValue]),
+        [
+          ["ref", "Dictionary<string, int>", "map", null],
+          ["params", "string[]", "names", null],
+          ["", "string", "sep", '","'],
+          ["out", "(int a, int b)", "pair", null],
+        ]
+      );
+      assert.deepStrictEqual(parameters[0].attributes, ["[NotNull]"]);
+    });
+  });
+
+  suite("extract functions", () => {
+    test("Ignores commented-out and string content", () => {
+      const code = `public class C
+{
+    // public void Commented() { }
+    /* public int Hidden { get; set; } */
+    public string Text = "public void InString() { }";
+    public void Real() { }
+}`;
+      const methods = extractMethods(code);
+
+      assert.deepStrictEqual(methods.map((m) => m.name), ["Real"]);
+      assert.strictEqual(extractProperties(code).length, 0);
+    });
+
+    test("Handles nested generics", () => {
+      const code = `public class C
+{
+    public Dictionary<string, List<int>> Map { get; set; }
+    public Task<Dictionary<string, List<int>>> LoadAsync(IDictionary<string, List<int>> seed) { return null; }
+}`;
+      const methods = extractMethods(code);
+      const properties = extractProperties(code);
+
+      assert.strictEqual(properties[0].type, "Dictionary<string, List<int>>");
+      assert.strictEqual(methods[0].returnType, "Task<Dictionary<string, List<int>>>");
+      assert.strictEqual(methods[0].parameters, "IDictionary<string, List<int>> seed");
+    });
+
+    test("Models property accessors and required", () => {
+      const code = `public class C
+{
+    public required string Name { get; init; }
+    public string? Note { private get; set; }
+}`;
+      const [name, note] = extractProperties(code);
+
+      assert.deepStrictEqual([name.accessors, name.isRequired], [["get", "init"], true]);
+      assert.deepStrictEqual([note.accessors, note.isRequired], [["set"], false]);
+    });
+
+    test("Handles expression-bodied methods and multi-line parameters", () => {
+      const code = `public class C
+{
+    public int Add(
+        int a,
+        int b) => a + b;
+}`;
+      const methods = extractMethods(code);
+
+      assert.strictEqual(methods.length, 1);
+      assert.strictEqual(methods[0].parameters, "int a, int b");
+    });
+
+    test("Records source ranges on members", () => {
+      const code = `public class C
+{
+    [Obsolete]
+    public void Run() { }
+    public int Count { get; set; }
+}`;
+      const [method] = extractMethods(code);
+      const [property] = extractProperties(code);
+
+      assert.strictEqual(code.substring(method.start!, method.end!), "[Obsolete]\n    public void Run() { }");
+      assert.strictEqual(code.substring(property.start!, property.end!), "public int Count { get; set; }");
+    });
+
+    test("Extracts events and fields", () => {
+      const code = `public class C
+{
+    public event EventHandler<string> Changed;
+    private readonly Dictionary<int, string> _cache = new Dictionary<int, string>(), _other;
+    protected internal int _count;
+    private const int Max = 3;
+}`;
+      const events = extractEvents(code);
+      const fields = extractFields(code);
+
+      assert.deepStrictEqual(
+        events.map((e) => [e.type, e.name]),
+        [["EventHandler<string>", "Changed"]]
+      );
+      assert.deepStrictEqual(fields.map((f) => f.name), ["_cache", "_other", "_count"]);
+      assert.strictEqual(fields[0].type, "Dictionary<int, string>");
+      assert.strictEqual(fields[0].isReadonly, true);
+      assert.strictEqual(fields[2].accessModifier, "protected internal");
+    });
+
+    test("Extracts namespace and usings", () => {
+      const code = `using System;
+global using System.Linq;
+using Alias = System.Text.StringBuilder;
+
+namespace App.Services;
+`;
+      assert.strictEqual(extractNamespace(code), "App.Services");
+      assert.strictEqual(
+        extractUsings(code),
+        "using System;\nglobal using System.Linq;\nusing Alias = System.Text.StringBuilder;"
+      );
+    });
+
+    test("Parses interface members with nested generics", () => {
+      const code = `public interface IRepo
+{
+    // void Commented();
+    Task<IDictionary<int, List<string>>> LoadAsync(CancellationToken token = default);
+    Dictionary<string, int> Counts { get; }
+}`;
+      const members = parseInterfaceMembers(code);
+
+      assert.strictEqual(members.methods.length, 1);
+      assert.strictEqual(members.methods[0].returnType, "Task<IDictionary<int, List<string>>>");
+      assert.strictEqual(members.properties[0].type, "Dictionary<string, int>");
+    });
+
+    test("Finds implemented interfaces with generic arguments", () => {
+      const code = `public class Repo : BaseRepo, IRepository<Dictionary<string, int>>, IDisposable
+{
+}`;
+      assert.deepStrictEqual(findImplementedInterfaces(code), [
+        "IRepository<Dictionary<string, int>>",
+        "IDisposable",
+      ]);
+    });
+  });
+
+  suite("type references", () => {
+    test("Splits type references", () => {
+      assert.deepStrictEqual(parseTypeReference("Repository<Order, Dictionary<string, int>>"), {
+        name: "Repository",
+        typeArguments: ["Order", "Dictionary<string, int>"],
+      });
+      assert.deepStrictEqual(parseTypeReference("Core.ServiceBase"), { name: "Core.ServiceBase", typeArguments: [] });
+    });
+
+    test("Substitutes type parameters", () => {
+      const typeArguments = new Map([["T", "Order"], ["TKey", "int"]]);
+      assert.strictEqual(
+        substituteTypeParameters("IDictionary<TKey, T> items, T.Nested other, string T2", typeArguments),
+        "IDictionary<int, Order> items, Order.Nested other, string T2"
+      );
+    });
+  });
+});
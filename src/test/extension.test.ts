@@ -12,6 +12,7 @@ const normalizeNewlines = (text: string) => text.replace(/\r\n/g, "\n");
 suite("C# Extract Interface Extension Tests", () => {
   const testWorkspaceRoot = path.join(__dirname, "test_workspace");
   let showInputBoxStub: sinon.SinonStub;
+  let showQuickPickStub: sinon.SinonStub;
 
   // Setup: Create a temporary workspace directory before all tests
   suiteSetup(async () => {
@@ -74,6 +75,13 @@ suite("C# Extract Interface Extension Tests", () => {
     showInputBoxStub = sinon
       .stub(vscode.window, "showInputBox")
       .resolves(mockedInterfaceName);
+    // Keep every member selected in the member picker
+    showQuickPickStub = sinon.stub(vscode.window, "showQuickPick");
+    showQuickPickStub.callsFake(
+      async (
+        items: readonly vscode.QuickPickItem[] | Thenable<readonly vscode.QuickPickItem[]>
+      ): Promise<vscode.QuickPickItem[] | undefined> => (await items).filter((item) => item.picked)
+    );
 
     const document = await vscode.workspace.openTextDocument(inputFileUri);
     await vscode.window.showTextDocument(document);
@@ -107,7 +115,7 @@ suite("C# Extract Interface Extension Tests", () => {
       const interfaceFileUri = vscode.Uri.file(path.join(testWorkspaceRoot, `${interfaceName}.cs`));
       assert.ok(fs.existsSync(interfaceFileUri.fsPath), "Interface file not created");
       const interfaceContent = await readFileContent(interfaceFileUri);
-      const expectedInterfaceContent = `public interface ${interfaceName} ${EOL}{${EOL}}`; // Assuming no methods for simplicity
+      const expectedInterfaceContent = `public interface ${interfaceName}${EOL}{${EOL}}${EOL}`; // Assuming no methods for simplicity
       assert.strictEqual(interfaceContent, normalizeNewlines(expectedInterfaceContent), "Interface content incorrect");
     });
 
@@ -181,7 +189,7 @@ suite("C# Extract Interface Extension Tests", () => {
 
       assert.ok(fs.existsSync(expectedInterfacePath), `Interface file not created at ${expectedInterfacePath}`);
       const interfaceContent = await readFileContentDirectly(expectedInterfacePath);
-      const expectedInterfaceContent = `public interface ${actualInterfaceName} ${EOL}{${EOL}}`;
+      const expectedInterfaceContent = `public interface ${actualInterfaceName}${EOL}{${EOL}}${EOL}`;
       assert.strictEqual(interfaceContent, normalizeNewlines(expectedInterfaceContent), "Interface content incorrect");
     });
 
@@ -206,7 +214,7 @@ suite("C# Extract Interface Extension Tests", () => {
 
       assert.ok(fs.existsSync(expectedInterfacePath), `Interface file not created at ${expectedInterfacePath}`);
       const interfaceContent = await readFileContentDirectly(expectedInterfacePath);
-      const expectedInterfaceContent = `public interface ${actualInterfaceName} ${EOL}{${EOL}}`;
+      const expectedInterfaceContent = `public interface ${actualInterfaceName}${EOL}{${EOL}}${EOL}`;
       assert.strictEqual(interfaceContent, normalizeNewlines(expectedInterfaceContent), "Interface content incorrect");
     });
   });
@@ -299,14 +307,15 @@ suite("C# Extract Interface Extension Tests", () => {
       assert.ok(fs.existsSync(expectedInterfacePath), `Interface file not created at ${expectedInterfacePath}`);
       const interfaceContent = await readFileContentDirectly(expectedInterfacePath);
       const expectedInterfaceContent = 
-`namespace ${namespace} 
+`namespace ${namespace}
 {
-\tpublic interface ${actualInterfaceName} 
-\t{
-\t    string GetName(int id);
-\t    void DoWork();
-\t}
-}`;
+    public interface ${actualInterfaceName}
+    {
+        string GetName(int id);
+        void DoWork();
+    }
+}
+`;
       assert.strictEqual(interfaceContent, normalizeNewlines(expectedInterfaceContent), "Interface content incorrect");
     });
   });
@@ -0,0 +1,134 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  DEFAULT_CODE_FORMAT,
+  getEditorConfigProperties,
+  resolveCodeFormat,
+  formatBlock,
+} from "../logic/formatting";
+import { generateInterfaceCode } from "../logic/interfaceExtractor";
+import { generateMethodStub } from "../logic/implementInterface";
+
+suite("Formatting Tests", () => {
+  const root = path.resolve("/repo");
+  const filePath = path.join(root, "src", "Services", "OrderService.cs");
+
+  suite("getEditorConfigProperties", () => {
+    test("Applies matching sections, later sections winning", () => {
+      const files = [
+        {
+          directory: root,
+          content: `root = true
+
+[*]
+indent_style = space
+indent_size = 2
+
+[*.{cs,csx}]
+indent_size = 4
+end_of_line = CRLF
+
+[*.json]
+indent_size = 8`,
+        },
+      ];
+      assert.deepStrictEqual(getEditorConfigProperties(files, filePath), {
+        indent_style: "space",
+        indent_size: "4",
+        end_of_line: "crlf",
+      });
+    });
+
+    test("Nearer files override and root stops the search", () => {
+      const files = [
+        { directory: path.join(root, "src"), content: "[*.cs]\nindent_style = tab" },
+        { directory: root, content: "root = true\n[*]\nindent_style = space\ninsert_final_newline = false" },
+        { directory: path.dirname(root), content: "[*]\nend_of_line = crlf" },
+      ];
+      assert.deepStrictEqual(getEditorConfigProperties(files, filePath), {
+        indent_style: "tab",
+        insert_final_newline: "false",
+      });
+    });
+
+    test("Matches globs with a slash relative to the file's directory", () => {
+      const files = [
+        { directory: root, content: "[src/**.cs]\nindent_size = 3\n[tests/*.cs]\nindent_size = 5" },
+      ];
+      assert.deepStrictEqual(getEditorConfigProperties(files, filePath), { indent_size: "3" });
+    });
+  });
+
+  suite("resolveCodeFormat", () => {
+    test("Falls back to editor settings", () => {
+      const format = resolveCodeFormat({}, { indentStyle: "tab", indentSize: 2 });
+      assert.deepStrictEqual(format, { ...DEFAULT_CODE_FORMAT, indentStyle: "tab", indentSize: 2 });
+    });
+
+    test("Reads indentation, line endings, braces and final newline", () => {
+      const format = resolveCodeFormat({
+        indent_style: "space",
+        indent_size: "tab",
+        tab_width: "2",
+        end_of_line: "crlf",
+        csharp_new_line_before_open_brace: "none",
+        insert_final_newline: "false",
+      });
+      assert.deepStrictEqual(format, {
+        indentStyle: "space",
+        indentSize: 2,
+        endOfLine: "\r\n",
+        newLineBeforeOpenBrace: false,
+        insertFinalNewline: false,
+      });
+    });
+  });
+
+  suite("generators", () => {
+    test("Lays out blocks in Allman or K&R style", () => {
+      const allman = formatBlock("class C", ["  int x;"], "", DEFAULT_CODE_FORMAT);
+      const kr = formatBlock("class C", ["  int x;"], "", {
+        ...DEFAULT_CODE_FORMAT,
+        newLineBeforeOpenBrace: false,
+      });
+      assert.deepStrictEqual(allman, ["class C", "{", "  int x;", "}"]);
+      assert.deepStrictEqual(kr, ["class C {", "  int x;", "}"]);
+    });
+
+    test("Generates interfaces with the configured format", () => {
+      const classText = `namespace App
+{
+    public class Service
+    {
+        public void Run() { }
+    }
+}`;
+      const result = generateInterfaceCode(classText, "IService", "Service", {
+        format: {
+          indentStyle: "tab",
+          indentSize: 4,
+          endOfLine: "\r\n",
+          newLineBeforeOpenBrace: false,
+          insertFinalNewline: true,
+        },
+      });
+
+      assert.strictEqual(
+        result.interfaceCode,
+        "namespace App {\r\n\tpublic interface IService {\r\n\t\tvoid Run();\r\n\t}\r\n}\r\n"
+      );
+    });
+
+    test("Generates method stubs with the configured indentation", () => {
+      const stub = generateMethodStub(
+        { returnType: "void", name: "Run", genericParams: null, parameters: "" },
+        "  ",
+        { ...DEFAULT_CODE_FORMAT, indentSize: 2 }
+      );
+      assert.strictEqual(
+        stub,
+        "  public void Run()\n  {\n    throw new NotImplementedException();\n  }"
+      );
+    });
+  });
+});
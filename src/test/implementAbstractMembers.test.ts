@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import { getAbstractMembers, getBaseClassName } from "../logic/implementAbstractMembers";
+import { generateInterfaceStubs, generatePropertyStub } from "../logic/implementInterface";
+import { parseCSharp, getAllTypes } from "../logic/csharpSyntax";
+import { BaseClassDeclaration } from "../logic/csharpParser";
+
+suite("Implement Abstract Members Tests", () => {
+  const baseCode = `public abstract class EntityService<TEntity> : ServiceBase
+{
+    public abstract TEntity Find(int id);
+    protected abstract void Validate(TEntity entity);
+    public abstract override string Name { get; }
+    public virtual void Log() { }
+}
+public abstract class ServiceBase
+{
+    public abstract string Name { get; }
+    protected internal abstract event EventHandler Changed;
+    public abstract void Start();
+}`;
+  const [entityService, serviceBase] = getAllTypes(parseCSharp(baseCode));
+  const file = { path: "/src/Services.cs", code: baseCode };
+  const chain: BaseClassDeclaration[] = [
+    { file, type: entityService, typeArguments: new Map([["TEntity", "Order"]]) },
+    { file, type: serviceBase, typeArguments: new Map() },
+  ];
+  const classType = (code: string) => getAllTypes(parseCSharp(code))[0];
+
+  test("Collects abstract members across the chain once each", () => {
+    const members = getAbstractMembers([classType("public class OrderService : EntityService<Order> { }")], chain);
+
+    assert.deepStrictEqual(
+      members.methods.map((m) => `${m.accessModifier} ${m.returnType} ${m.name}(${m.parameters})`),
+      ["public Order Find(int id)", "protected void Validate(Order entity)", "public void Start()"]
+    );
+    assert.deepStrictEqual(members.properties.map((p) => p.name), ["Name"]);
+    assert.deepStrictEqual(members.events.map((e) => e.accessModifier), ["protected internal"]);
+  });
+
+  test("Leaves out members the class already overrides", () => {
+    const code = `public partial class OrderService : EntityService<Order>
+{
+    protected override void Validate(Order order) { }
+    public override void Start() { }
+}`;
+    const members = getAbstractMembers([classType(code)], chain);
+
+    assert.deepStrictEqual(members.methods.map((m) => m.name), ["Find"]);
+  });
+
+  test("Generates overrides keeping the access modifiers", () => {
+    const members = getAbstractMembers([classType("public class OrderService : EntityService<Order> { }")], chain);
+    const stubs = generateInterfaceStubs(members, "    ", undefined, { override: true, body: "default" });
+
+    assert.ok(stubs.includes("    public override string Name { get; }"));
+    assert.ok(stubs.includes("    protected internal override event EventHandler Changed;"));
+    assert.ok(stubs.includes("    public override Order Find(int id)\n    {\n        return default;\n    }"));
+    assert.ok(stubs.includes("    protected override void Validate(Order entity)\n    {\n    }"));
+  });
+
+  test("Keeps overrides of required properties required", () => {
+    const code = "public abstract class Entity { public abstract required string Key { get; init; } }";
+    const base: BaseClassDeclaration = { file, type: classType(code), typeArguments: new Map() };
+    const members = getAbstractMembers([classType("public class Order : Entity { }")], [base]);
+
+    assert.strictEqual(
+      generateInterfaceStubs(members, "", undefined, { override: true }),
+      "public override required string Key { get; init; }"
+    );
+  });
+
+  test("Overrides accessors callers cannot see with their access modifiers", () => {
+    const code = "public abstract class Entity { public abstract int Version { get; protected set; } }";
+    const base: BaseClassDeclaration = { file, type: classType(code), typeArguments: new Map() };
+    const members = getAbstractMembers([classType("public class Order : Entity { }")], [base]);
+
+    assert.strictEqual(
+      generateInterfaceStubs(members, "", undefined, { override: true }),
+      "public override int Version { get; protected set; }"
+    );
+    assert.strictEqual(
+      generatePropertyStub(members.properties[0], "", undefined, { override: true, delegateTo: "_inner" }),
+      "public override int Version\n{\n    get => _inner.Version;\n    protected set => _inner.Version = value;\n}"
+    );
+  });
+
+  test("Names the base class with its type arguments", () => {
+    assert.strictEqual(getBaseClassName(chain[0]), "EntityService<Order>");
+    assert.strictEqual(getBaseClassName(chain[1]), "ServiceBase");
+  });
+});
@@ -4,11 +4,26 @@ import {
   generateMethodStub,
   generatePropertyStub,
   generateEventStub,
+  generateIndexerStub,
   generateInterfaceStubs,
   findClassInsertPosition,
+  getClassMemberIndent,
   insertInterfaceStubs,
+  getInsertInterfaceStubsChange,
   filterUnimplementedMembers,
+  getInterfaceMemberGroup,
+  removeDuplicateInterfaceMembers,
+  generateInterfaceStubGroups,
+  findConflictingMembers,
+  findDelegationTargets,
+  usesSystemNamespace,
+  getInsertStubGroupsChanges,
+  InterfaceMemberGroup,
+  InterfaceMembers,
 } from "../logic/implementInterface";
+import { applyTextChanges } from "../logic/textChanges";
+import { parseCSharp, getAllTypes } from "../logic/csharpSyntax";
+import { PropertyAccessor } from "../logic/csharpParser";
 
 suite("Implement Interface Logic Tests", () => {
   suite("parseInterfaceMembers", () => {
@@ -124,6 +139,21 @@ public interface ICompleteService
       assert.strictEqual(members.methods.length, 2);
     });
 
+    test("should parse the named interface only", () => {
+      const interfaceCode = `
+public interface IFirst
+{
+    void First();
+}
+
+public interface ISecond<T>
+{
+    T Second();
+}`;
+      const members = parseInterfaceMembers(interfaceCode, "ISecond<Customer>");
+      assert.deepStrictEqual(members.methods.map((m) => m.name), ["Second"]);
+    });
+
     test("should return empty for invalid interface", () => {
       const interfaceCode = `public class NotAnInterface { }`;
       const members = parseInterfaceMembers(interfaceCode);
@@ -131,6 +161,109 @@ public interface ICompleteService
       assert.strictEqual(members.properties.length, 0);
       assert.strictEqual(members.events.length, 0);
     });
+    test("should skip static members the interface implements itself", () => {
+      const interfaceCode = `
+public interface IParsable<TSelf>
+{
+    static abstract TSelf Parse(string text);
+    static TSelf Default() => default;
+}`;
+      const members = parseInterfaceMembers(interfaceCode);
+      assert.deepStrictEqual(members.methods.map((m) => m.name), ["Parse"]);
+      assert.ok(generateMethodStub(members.methods[0]).includes("public static TSelf Parse(string text)"));
+    });
+  });
+
+  suite("substituteTypeArguments", () => {
+    const interfaceCode = `
+public interface IRepository<TEntity, TKey>
+{
+    TEntity Find(TKey id);
+    Task<IList<TEntity>> FindAllAsync(Expression<Func<TEntity, bool>> filter);
+    T Convert<T>(TEntity entity, T fallback);
+    IReadOnlyDictionary<TKey, TEntity> Cache { get; }
+    event EventHandler<TEntity> Added;
+}`;
+
+    test("should write members in terms of the type arguments", () => {
+      const members = parseInterfaceMembers(interfaceCode, "IRepository<Customer, Dictionary<string, int>>");
+
+      assert.deepStrictEqual(
+        members.methods.map((m) => `${m.returnType} ${m.name}(${m.parameters})`),
+        [
+          "Customer Find(Dictionary<string, int> id)",
+          "Task<IList<Customer>> FindAllAsync(Expression<Func<Customer, bool>> filter)",
+          "T Convert(Customer entity, T fallback)",
+        ]
+      );
+      assert.strictEqual(members.properties[0].type, "IReadOnlyDictionary<Dictionary<string, int>, Customer>");
+      assert.strictEqual(members.events[0].type, "EventHandler<Customer>");
+    });
+
+    test("should leave method type parameters alone", () => {
+      const code = "public interface IConverter<T>\n{\n    T To<T>(T value);\n    T From(string text);\n}";
+      const members = parseInterfaceMembers(code, "IConverter<Money>");
+
+      assert.deepStrictEqual(
+        members.methods.map((m) => `${m.returnType} ${m.name}(${m.parameters})`),
+        ["T To(T value)", "Money From(string text)"]
+      );
+    });
+  });
+
+  suite("interface hierarchies", () => {
+    const interfaceCode = `
+public interface IService<T>
+{
+    void Save(T item);
+    string Name { get; }
+}
+public interface IOrderService : IService<Order>
+{
+    string Name { get; }
+    void Cancel(int id);
+}`;
+    const [service, orderService] = getAllTypes(parseCSharp(interfaceCode));
+
+    test("should group members by declaring interface without duplicates", () => {
+      const groups = removeDuplicateInterfaceMembers([
+        getInterfaceMemberGroup("IOrderService", [orderService])!,
+        getInterfaceMemberGroup("IService<Order>", [service])!,
+        getInterfaceMemberGroup("IDisposable", [])!,
+      ]);
+
+      assert.strictEqual(
+        generateInterfaceStubGroups(groups),
+        [
+          "    public string Name { get; }",
+          "    public void Cancel(int id)\n    {\n        throw new NotImplementedException();\n    }",
+          "    public void Save(Order item)\n    {\n        throw new NotImplementedException();\n    }",
+          "    public void Dispose()\n    {\n        throw new NotImplementedException();\n    }",
+        ].join("\n\n")
+      );
+    });
+
+    test("should stub overloads from across the hierarchy the class lacks", () => {
+      const code = `public interface IBase { void Get(int id); }
+public interface IDerived : IBase { void Get(string key); }`;
+      const [base, derived] = getAllTypes(parseCSharp(code));
+      const groups = removeDuplicateInterfaceMembers([
+        getInterfaceMemberGroup("IDerived", [derived])!,
+        getInterfaceMemberGroup("IBase", [base])!,
+      ]);
+      const classCode = "public class Repository : IDerived\n{\n    public void Get(int id) { }\n}";
+
+      assert.deepStrictEqual(
+        groups.map((g) => filterUnimplementedMembers(g.members, classCode).methods.map((m) => m.parameters)),
+        [["string key"], []]
+      );
+    });
+
+    test("should know common framework interfaces only", () => {
+      const equatable = getInterfaceMemberGroup("System.IEquatable<Money>", []);
+      assert.strictEqual(equatable?.members.methods[0].parameters, "Money? other");
+      assert.strictEqual(getInterfaceMemberGroup("IServiceProvider", []), null);
+    });
   });
 
   suite("generateMethodStub", () => {
@@ -153,6 +286,21 @@ public interface ICompleteService
       assert.ok(stub.includes("public T Find<T>(int id)"));
     });
 
+    test("should keep constraints on implicit stubs only", () => {
+      const interfaceCode = `public interface IRepository<TKey>
+{
+    T Find<T>(TKey id) where T : IEntity<TKey>;
+}`;
+      const members = parseInterfaceMembers(interfaceCode, "IRepository<Guid>");
+      const [method] = members.methods;
+      assert.ok(generateMethodStub(method).includes("public T Find<T>(Guid id) where T : IEntity<Guid>\n"));
+      assert.ok(
+        generateMethodStub(method, "    ", undefined, { explicitInterface: "IRepository<Guid>" }).includes(
+          "T IRepository<Guid>.Find<T>(Guid id)\n"
+        )
+      );
+    });
+
     test("should generate async Task method", () => {
       const method = { returnType: "Task", name: "ProcessAsync", genericParams: null, parameters: "" };
       const stub = generateMethodStub(method);
@@ -186,6 +334,70 @@ public interface ICompleteService
     });
   });
 
+  suite("accessor shapes", () => {
+    const interfaceCode = `
+public interface IOrder
+{
+    int Id { get; }
+    string Name { get; init; }
+    string? Note { set; }
+    DateTime Created { get; set; }
+}`;
+
+    test("should copy the declared accessors", () => {
+      const { properties } = parseInterfaceMembers(interfaceCode);
+      assert.deepStrictEqual(
+        properties.map((p) => generatePropertyStub(p, "")),
+        [
+          "public int Id { get; }",
+          "public string Name { get; init; }",
+          "public string? Note { private get; set; }",
+          "public DateTime Created { get; set; }",
+        ]
+      );
+    });
+
+    test("should back explicit implementations with fields", () => {
+      const { properties } = parseInterfaceMembers(interfaceCode);
+      const options = { explicitInterface: "IOrder", backingFields: true };
+
+      assert.strictEqual(
+        generatePropertyStub(properties[1], "", undefined, options),
+        "private string _name;\nstring IOrder.Name\n{\n    get => _name;\n    init => _name = value;\n}"
+      );
+      assert.strictEqual(
+        generateEventStub({ type: "EventHandler", name: "Changed" }, "", undefined, options),
+        "private EventHandler? _changed;\nevent EventHandler IOrder.Changed\n{\n" +
+          "    add => _changed += value;\n    remove => _changed -= value;\n}"
+      );
+    });
+
+    test("should give each backing field a name the class does not use yet", () => {
+      const members: InterfaceMembers = {
+        methods: [],
+        properties: [{ type: "string", name: "Name", accessors: ["get"] }],
+        events: [],
+      };
+      const implement = (code: string, interfaceName: string) =>
+        applyTextChanges(
+          code,
+          getInsertStubGroupsChanges(code, [{ interfaceName, members }], undefined, undefined, "endOfClass", true, {
+            backingFields: true,
+          })
+        );
+      const code = "public class C : IA, IB\n{\n    private string _name;\n}";
+      const result = implement(implement(code, "IA"), "IB");
+
+      assert.deepStrictEqual(result.match(/private string \w+;/g), [
+        "private string _name;",
+        "private string _name2;",
+        "private string _name3;",
+      ]);
+      assert.ok(result.includes("string IA.Name\n    {\n        get => _name2;"));
+      assert.ok(result.includes("string IB.Name\n    {\n        get => _name3;"));
+    });
+  });
+
   suite("generateEventStub", () => {
     test("should generate event stub", () => {
       const event = { type: "EventHandler", name: "Changed" };
@@ -200,6 +412,53 @@ public interface ICompleteService
     });
   });
 
+  suite("indexers", () => {
+    const interfaceCode = `public interface ILookup<TKey>
+{
+    string this[TKey key] { get; set; }
+    int this[int row, int column] { get; }
+}`;
+
+    test("should read indexers with the class's type arguments", () => {
+      const members = parseInterfaceMembers(interfaceCode, "ILookup<Guid>");
+      assert.deepStrictEqual(
+        members.indexers?.map((i) => `${i.type} this[${i.parameters}]`),
+        ["string this[Guid key]", "int this[int row, int column]"]
+      );
+    });
+
+    test("should generate implicit, explicit and delegating indexer stubs", () => {
+      const [indexer] = parseInterfaceMembers(interfaceCode, "ILookup<Guid>").indexers!;
+
+      assert.strictEqual(
+        generateIndexerStub(indexer),
+        "    public string this[Guid key]\n    {\n" +
+          "        get => throw new NotImplementedException();\n        set => throw new NotImplementedException();\n    }"
+      );
+      assert.ok(
+        generateIndexerStub(indexer, "    ", undefined, { explicitInterface: "ILookup<Guid>" }).startsWith(
+          "    string ILookup<Guid>.this[Guid key]\n"
+        )
+      );
+      assert.ok(
+        generateIndexerStub(indexer, "    ", undefined, { delegateTo: "_inner" }).includes(
+          "        get => _inner[key];\n        set => _inner[key] = value;"
+        )
+      );
+    });
+
+    test("should only count indexers with the same parameter types as implemented", () => {
+      const members = parseInterfaceMembers(interfaceCode, "ILookup<Guid>");
+      const classCode = `public class Lookup : ILookup<Guid>
+{
+    public string this[Guid id] { get => ""; set { } }
+}`;
+      const unimplemented = filterUnimplementedMembers(members, classCode);
+      assert.deepStrictEqual(unimplemented.indexers?.map((i) => i.parameters), ["int row, int column"]);
+      assert.ok(generateInterfaceStubs(unimplemented).startsWith("    public int this[int row, int column]\n"));
+    });
+  });
+
   suite("generateInterfaceStubs", () => {
     test("should generate stubs for all member types", () => {
       const members = {
@@ -259,6 +518,19 @@ public interface ICompleteService
       assert.strictEqual(position, 9);
     });
 
+    test("should use the class under the cursor", () => {
+      const classCode = `public class First
+{
+}
+
+public class Second
+{
+    public void Method() { }
+}`;
+      const position = findClassInsertPosition(classCode, classCode.indexOf("Method"));
+      assert.strictEqual(position, 7);
+    });
+
     test("should return -1 for no class", () => {
       const code = `namespace MyNamespace { }`;
       const position = findClassInsertPosition(code);
@@ -266,6 +538,37 @@ public interface ICompleteService
     });
   });
 
+  suite("getClassMemberIndent", () => {
+    test("should indent one level inside a block-scoped namespace class", () => {
+      const classCode = `namespace MyNamespace
+{
+    public class MyClass
+    {
+    }
+}`;
+      assert.strictEqual(getClassMemberIndent(classCode), "        ");
+    });
+
+    test("should indent one level inside a file-scoped namespace class", () => {
+      const classCode = `namespace MyNamespace;
+
+public class MyClass
+{
+}`;
+      assert.strictEqual(getClassMemberIndent(classCode), "    ");
+    });
+
+    test("should follow existing members", () => {
+      const classCode = `namespace MyNamespace;
+
+public class MyClass
+{
+	public void Method() { }
+}`;
+      assert.strictEqual(getClassMemberIndent(classCode), "\t");
+    });
+  });
+
   suite("insertInterfaceStubs", () => {
     test("should insert stubs before closing brace", () => {
       const classCode = `public class MyClass : IMyInterface
@@ -288,9 +591,396 @@ public interface ICompleteService
       assert.ok(result.includes("Id { get; set; }"));
       assert.ok(result.includes("DoWork()"));
     });
+
+    test("should produce a single insertion before the closing brace line", () => {
+      const classCode = `public class MyClass : IMyInterface
+{
+    public int Id { get; set; }
+}`;
+      const stubs = "    public void DoWork() { }";
+      const change = getInsertInterfaceStubsChange(classCode, stubs);
+      const braceLine = classCode.lastIndexOf("}");
+
+      assert.deepStrictEqual(change, {
+        start: braceLine,
+        end: braceLine,
+        newText: "\n    public void DoWork() { }\n",
+      });
+    });
+
+    test("should give a record without a body one", () => {
+      const classCode = `public record Person(string Name) : IPerson;`;
+      const result = insertInterfaceStubs(classCode, "    public void Greet() { }");
+      assert.strictEqual(
+        result,
+        `public record Person(string Name) : IPerson
+{
+    public void Greet() { }
+}`
+      );
+    });
+
+    test("should keep CRLF line endings", () => {
+      const classCode = "public class MyClass : IMyInterface\r\n{\r\n}";
+      const result = insertInterfaceStubs(classCode, "    public int A { get; set; }\n    public int B { get; set; }");
+      assert.strictEqual(
+        result,
+        "public class MyClass : IMyInterface\r\n{\r\n    public int A { get; set; }\r\n    public int B { get; set; }\r\n}"
+      );
+    });
+  });
+
+  suite("explicit implementation", () => {
+    test("should qualify members with the interface", () => {
+      const stubs = generateInterfaceStubs(
+        {
+          methods: [{ returnType: "Order", name: "Find", genericParams: null, parameters: "int id" }],
+          properties: [{ type: "int", name: "Count", accessors: ["get"] }],
+          events: [{ type: "EventHandler", name: "Changed" }],
+        },
+        "    ",
+        undefined,
+        { explicitInterface: "IRepository<Order>" }
+      );
+
+      assert.strictEqual(
+        stubs,
+        [
+          "    int IRepository<Order>.Count\n    {\n        get => throw new NotImplementedException();\n    }",
+          "    event EventHandler IRepository<Order>.Changed\n    {\n" +
+            "        add => throw new NotImplementedException();\n" +
+            "        remove => throw new NotImplementedException();\n    }",
+          "    Order IRepository<Order>.Find(int id)\n    {\n        throw new NotImplementedException();\n    }",
+        ].join("\n\n")
+      );
+    });
+
+    test("should only count explicit implementations of the same interface", () => {
+      const members = {
+        methods: [
+          { returnType: "void", name: "Save", genericParams: null, parameters: "" },
+          { returnType: "void", name: "Load", genericParams: null, parameters: "" },
+          { returnType: "void", name: "Reset", genericParams: null, parameters: "" },
+        ],
+        properties: [],
+        events: [],
+      };
+      const classCode = `public class Order : Models.IStore<int>, IOther
+{
+    public void Save() { }
+    void Models.IStore<int>.Load() { }
+    void IOther.Reset() { }
+}`;
+
+      const unimplemented = filterUnimplementedMembers(members, classCode, undefined, [], "IStore<int>");
+      assert.deepStrictEqual(unimplemented.methods.map((m) => m.name), ["Save", "Reset"]);
+    });
+
+    test("should find members clashing with other interfaces or class members", () => {
+      const members = {
+        methods: [
+          { returnType: "string", name: "Format", genericParams: null, parameters: "int value" },
+          { returnType: "void", name: "Save", genericParams: null, parameters: "Order order" },
+          { returnType: "void", name: "Load", genericParams: null, parameters: "int id" },
+        ],
+        properties: [{ type: "string", name: "Name" }],
+        events: [],
+      };
+      const other = { methods: [], properties: [{ type: "string", name: "Name" }], events: [] };
+      const classCode = `public class Printer : IPrinter, INamed
+{
+    public string Format(object value) => "";
+    public void Save(Order item) { }
+}`;
+
+      assert.deepStrictEqual(findConflictingMembers(members, [other], classCode), ["Format", "Name"]);
+    });
+  });
+
+  suite("stub bodies", () => {
+    const method = (returnType: string) => ({ returnType, name: "Run", genericParams: null, parameters: "" });
+    const body = (returnType: string, stubBody: "default" | "noop") =>
+      generateMethodStub(method(returnType), "", undefined, { body: stubBody }).split("\n").slice(2, -1);
+
+    test("should return default", () => {
+      assert.deepStrictEqual(body("Order", "default"), ["    return default;"]);
+      assert.deepStrictEqual(body("void", "default"), []);
+    });
+
+    test("should do nothing, aware of tasks and collections", () => {
+      assert.deepStrictEqual(body("Task", "noop"), ["    return Task.CompletedTask;"]);
+      assert.deepStrictEqual(body("Task<Order>", "noop"), ["    return Task.FromResult(default(Order));"]);
+      assert.deepStrictEqual(body("Task<IList<Order>>", "noop"), [
+        "    return Task.FromResult<IList<Order>>(Array.Empty<Order>());",
+      ]);
+      assert.deepStrictEqual(body("ValueTask<int>", "noop"), ["    return default;"]);
+      assert.deepStrictEqual(body("IEnumerable<Order>", "noop"), ["    return Array.Empty<Order>();"]);
+      assert.deepStrictEqual(body("List<Order>", "noop"), ["    return new List<Order>();"]);
+      assert.deepStrictEqual(body("string", "noop"), ["    return string.Empty;"]);
+      assert.deepStrictEqual(body("bool", "noop"), ["    return default(bool);"]);
+    });
+
+    test("should assign out parameters before returning", () => {
+      const tryGet = { returnType: "bool", name: "TryGet", genericParams: null, parameters: "string key, out int value" };
+      const load = { returnType: "void", name: "Load", genericParams: null, parameters: "out string s, ref int n" };
+
+      assert.strictEqual(
+        generateMethodStub(tryGet, "", undefined, { body: "default" }),
+        "public bool TryGet(string key, out int value)\n{\n    value = default;\n    return default;\n}"
+      );
+      assert.strictEqual(
+        generateMethodStub(load, "", undefined, { body: "noop" }),
+        "public void Load(out string s, ref int n)\n{\n    s = default;\n}"
+      );
+    });
+
+    test("should make empty async streams iterators", () => {
+      const stub = generateMethodStub(method("IAsyncEnumerable<Order>"), "", undefined, { body: "noop" });
+      assert.strictEqual(stub, "public async IAsyncEnumerable<Order> Run()\n{\n    yield break;\n}");
+    });
+
+    test("should tell when stubs need the System namespace", () => {
+      assert.ok(usesSystemNamespace(generateMethodStub(method("void"))));
+      assert.ok(!usesSystemNamespace(generateMethodStub(method("Task"), "", undefined, { body: "noop" })));
+    });
+  });
+
+  suite("delegating implementation", () => {
+    test("should forward every member to the target", () => {
+      const stubs = generateInterfaceStubs(
+        {
+          methods: [
+            { returnType: "void", name: "Save", genericParams: null, parameters: "Order order, params string[] tags" },
+            { returnType: "Task<T>", name: "LoadAsync", genericParams: "T", parameters: "int id, out bool found" },
+          ],
+          properties: [{ type: "int", name: "Count", accessors: ["get", "set"] }],
+          events: [{ type: "EventHandler", name: "Changed" }],
+        },
+        "    ",
+        undefined,
+        { delegateTo: "_inner" }
+      );
+
+      assert.strictEqual(
+        stubs,
+        [
+          "    public int Count\n    {\n        get => _inner.Count;\n        set => _inner.Count = value;\n    }",
+          "    public event EventHandler Changed\n    {\n" +
+            "        add => _inner.Changed += value;\n        remove => _inner.Changed -= value;\n    }",
+          "    public void Save(Order order, params string[] tags)\n    {\n        _inner.Save(order, tags);\n    }",
+          "    public Task<T> LoadAsync<T>(int id, out bool found)\n    {\n" +
+            "        return _inner.LoadAsync<T>(id, out found);\n    }",
+        ].join("\n\n")
+      );
+    });
+
+    test("should not forward init accessors", () => {
+      const property = { type: "string", name: "Name", accessors: ["get", "init"] as PropertyAccessor[] };
+      const stub = generatePropertyStub(property, "    ", undefined, { delegateTo: "_inner" });
+
+      assert.strictEqual(
+        stub,
+        "    public string Name\n    {\n        get => _inner.Name;\n        init => throw new NotImplementedException();\n    }"
+      );
+    });
+
+    test("should find fields and primary constructor parameters of the interface type", () => {
+      const classCode = `public class CachedRepository(IRepository<Order> inner, ILogger logger) : IRepository<Order>
+{
+    private readonly IRepository<Order>? _fallback;
+    private readonly IRepository<Customer> _customers;
+    private readonly int _count;
+}`;
+
+      assert.deepStrictEqual(findDelegationTargets(classCode, "IRepository<Order>"), ["_fallback", "inner"]);
+    });
+  });
+
+  suite("stub placement", () => {
+    const groups: InterfaceMemberGroup[] = [
+      {
+        interfaceName: "ServiceBase",
+        members: {
+          methods: [{ returnType: "void", name: "Start", genericParams: null, parameters: "" }],
+          properties: [],
+          events: [],
+        },
+        isBaseClass: true,
+      },
+      {
+        interfaceName: "IOrderService",
+        members: {
+          methods: [{ returnType: "void", name: "Save", genericParams: null, parameters: "" }],
+          properties: [{ type: "int", name: "Count", accessors: ["get"] }],
+          events: [],
+        },
+      },
+    ];
+    const classCode = `public class OrderService : ServiceBase, IOrderService
+{
+    private int _count;
+
+    public string Name { get; set; }
+
+    public void Load() { }
+}`;
+    const place = (placement: "endOfClass" | "afterSameKind" | "region", code = classCode) =>
+      applyTextChanges(
+        code,
+        getInsertStubGroupsChanges(code, groups, undefined, undefined, placement, false, { body: "default" })
+      );
+
+    test("should append every group before the closing brace, overrides first", () => {
+      const result = place("endOfClass");
+      assert.ok(
+        result.endsWith(`    public void Load() { }
+
+    public override void Start()
+    {
+    }
+
+    public int Count { get; }
+
+    public void Save()
+    {
+    }
+}`)
+      );
+    });
+
+    test("should put each kind after the last member of that kind", () => {
+      assert.strictEqual(
+        place("afterSameKind"),
+        `public class OrderService : ServiceBase, IOrderService
+{
+    private int _count;
+
+    public string Name { get; set; }
+
+    public int Count { get; }
+
+    public void Load() { }
+
+    public override void Start()
+    {
+    }
+
+    public void Save()
+    {
+    }
+}`
+      );
+    });
+
+    test("should follow the member order when the class has no member of the kind", () => {
+      const code = "public class OrderService : IOrderService\n{\n    public void Load() { }\n}";
+      assert.strictEqual(
+        place("afterSameKind", code),
+        `public class OrderService : IOrderService
+{
+    public int Count { get; }
+
+    public void Load() { }
+
+    public override void Start()
+    {
+    }
+
+    public void Save()
+    {
+    }
+}`
+      );
+    });
+
+    test("should keep stubs inside a class written on one line", () => {
+      assert.strictEqual(
+        place("afterSameKind", "public class OrderService : IOrderService { public void Load() { } }"),
+        "public class OrderService : IOrderService { public void Load() { } \n" +
+          `    public int Count { get; }
+
+    public override void Start()
+    {
+    }
+
+    public void Save()
+    {
+    }
+}`
+      );
+    });
+
+    test("should keep the member order when kinds share a line", () => {
+      const code = "public class OrderService : IOrderService\n{\n    public string Name { get; set; } public void Load() { }\n}";
+      assert.strictEqual(
+        place("afterSameKind", code),
+        `public class OrderService : IOrderService
+{
+    public string Name { get; set; } public void Load() { }
+
+    public int Count { get; }
+
+    public override void Start()
+    {
+    }
+
+    public void Save()
+    {
+    }
+}`
+      );
+    });
+
+    test("should wrap each group in a region", () => {
+      const result = place("region");
+      assert.ok(
+        result.endsWith(`    #region ServiceBase Members
+
+    public override void Start()
+    {
+    }
+
+    #endregion
+
+    #region IOrderService Members
+
+    public int Count { get; }
+
+    public void Save()
+    {
+    }
+
+    #endregion
+}`)
+      );
+    });
   });
 
   suite("filterUnimplementedMembers", () => {
+    test("should count members of other partial declarations", () => {
+      const members = {
+        methods: [
+          { returnType: "void", name: "Save", genericParams: null, parameters: "" },
+          { returnType: "void", name: "Load", genericParams: null, parameters: "" },
+        ],
+        properties: [{ type: "int", name: "Id" }],
+        events: [],
+      };
+      const classCode = `public partial class Order : IOrder
+{
+    public void Save() { }
+}`;
+      const partialCode = `public partial class Order
+{
+    public int Id { get; set; }
+}`;
+      const partials = [{ file: { path: "Order.g.cs", code: partialCode }, type: getAllTypes(parseCSharp(partialCode))[0] }];
+
+      const unimplemented = filterUnimplementedMembers(members, classCode, undefined, partials);
+      assert.deepStrictEqual(unimplemented.methods.map((m) => m.name), ["Load"]);
+      assert.deepStrictEqual(unimplemented.properties, []);
+    });
+
     test("should filter out implemented methods", () => {
       const members = {
         methods: [
@@ -345,6 +1035,29 @@ public interface ICompleteService
       assert.strictEqual(unimplemented.events[0].name, "Updated");
     });
 
+    test("should ignore members of nested and sibling classes", () => {
+      const members = {
+        methods: [{ returnType: "void", name: "DoWork", genericParams: null, parameters: "" }],
+        properties: [],
+        events: [],
+      };
+      const classCode = `public class Sibling
+{
+    public void DoWork() { }
+}
+
+public class MyClass : IMyInterface
+{
+    public class Nested
+    {
+        public void DoWork() { }
+    }
+}`;
+      const offset = classCode.indexOf("MyClass");
+      const unimplemented = filterUnimplementedMembers(members, classCode, offset);
+      assert.strictEqual(unimplemented.methods.length, 1);
+    });
+
     test("should return all members if none implemented", () => {
       const members = {
         methods: [{ returnType: "void", name: "DoWork", genericParams: null, parameters: "" }],
@@ -360,6 +1073,20 @@ public interface ICompleteService
       assert.strictEqual(unimplemented.events.length, 1);
     });
 
+    test("should count positional record parameters as properties", () => {
+      const members = {
+        methods: [],
+        properties: [
+          { type: "string", name: "Name" },
+          { type: "int", name: "Age" },
+        ],
+        events: [],
+      };
+      const classCode = `public record struct Person(string Name) : IPerson;`;
+      const unimplemented = filterUnimplementedMembers(members, classCode);
+      assert.deepStrictEqual(unimplemented.properties.map((p) => p.name), ["Age"]);
+    });
+
     test("should return empty if all implemented", () => {
       const members = {
         methods: [{ returnType: "void", name: "DoWork", genericParams: null, parameters: "" }],
@@ -2,6 +2,11 @@ import * as assert from "assert";
 import {
   generateInterfaceCode,
   updateClassToImplementInterface,
+  getImplementInterfaceChange,
+  getExtractableMembers,
+  generateMemberSignature,
+  findTargetType,
+  applyTextChanges,
 } from "../logic";
 
 suite("Logic Tests", () => {
@@ -18,13 +23,39 @@ namespace MyNamespace
     }
 }
 `;
-    const result = generateInterfaceCode(classText, "IMyClass", "MyClass.cs");
+    const result = generateInterfaceCode(classText, "IMyClass", "MyClass");
 
     assert.strictEqual(result.interfaceName, "IMyClass");
     assert.strictEqual(result.namespace, "MyNamespace");
     assert.ok(result.interfaceCode.includes("void Method1();"));
     assert.ok(result.interfaceCode.includes("int Method2(string s);"));
-    assert.ok(result.interfaceCode.includes("using System;"));
+    // Nothing in the signatures comes from System
+    assert.ok(!result.interfaceCode.includes("using System;"));
+  });
+
+  test("Extract Interface - File-Scoped Namespace", () => {
+    const classText = `using System;
+
+namespace MyNamespace;
+
+public class MyClass
+{
+    public void Method1() { }
+}
+`;
+    const result = generateInterfaceCode(classText, "IMyClass", "MyClass");
+
+    assert.strictEqual(result.namespace, "MyNamespace");
+    assert.strictEqual(
+      result.interfaceCode,
+      `namespace MyNamespace;
+
+public interface IMyClass
+{
+    void Method1();
+}
+`
+    );
   });
 
   test("Extract Interface - Async Methods", () => {
@@ -34,7 +65,7 @@ namespace MyNamespace
         public async Task<int> AsyncMethod() { return 0; }
     }
 `;
-    const result = generateInterfaceCode(classText, "IMyClass", "MyClass.cs");
+    const result = generateInterfaceCode(classText, "IMyClass", "MyClass");
     assert.ok(result.interfaceCode.includes("Task<int> AsyncMethod();"));
   });
 
@@ -45,19 +76,489 @@ namespace MyNamespace
         public event EventHandler MyEvent;
     }
 `;
-    const result = generateInterfaceCode(classText, "IMyClass", "MyClass.cs");
+    const result = generateInterfaceCode(classText, "IMyClass", "MyClass");
     assert.ok(result.interfaceCode.includes("event EventHandler MyEvent;"));
   });
 
-  test("Extract Interface - Ignore Properties", () => {
+  test("Extract Interface - Properties", () => {
     const classText = `
     public class MyClass
     {
         public string MyProp { get; set; }
+        public int ReadOnly { get; }
+        public int Computed => 42;
+        public string Created { get; init; }
+        public string Status { get; private set; }
+        private string Hidden { get; set; }
+    }
+`;
+    const result = generateInterfaceCode(classText, "IMyClass", "MyClass");
+    assert.ok(result.interfaceCode.includes("string MyProp { get; set; }"));
+    assert.ok(result.interfaceCode.includes("int ReadOnly { get; }"));
+    assert.ok(result.interfaceCode.includes("int Computed { get; }"));
+    assert.ok(result.interfaceCode.includes("string Created { get; init; }"));
+    assert.ok(result.interfaceCode.includes("string Status { get; }"));
+    assert.ok(!result.interfaceCode.includes("Hidden"));
+  });
+
+  test("Extract Interface - Indexers", () => {
+    const classText = `
+    public class MyList
+    {
+        public string this[int index]
+        {
+            get => _items[index];
+            set => _items[index] = value;
+        }
+        public int this[string key, int fallback] => 0;
+    }
+`;
+    const result = generateInterfaceCode(classText, "IMyList", "MyList");
+    assert.ok(result.interfaceCode.includes("string this[int index] { get; set; }"));
+    assert.ok(result.interfaceCode.includes("int this[string key, int fallback] { get; }"));
+  });
+
+  test("Extract Interface - Properties before methods", () => {
+    const classText = `
+    public class MyClass
+    {
+        public void Run() { }
+        public int Count { get; set; }
+    }
+`;
+    const result = generateInterfaceCode(classText, "IMyClass", "MyClass");
+    assert.ok(result.interfaceCode.indexOf("Count") < result.interfaceCode.indexOf("Run"));
+  });
+
+  test("Extract Interface - Class Under Cursor", () => {
+    const classText = `
+namespace MyNamespace
+{
+    public class Helper
+    {
+        public void HelperMethod() { }
     }
+
+    public class OrderService
+    {
+        public void PlaceOrder() { }
+
+        public class Nested
+        {
+            public void NestedMethod() { }
+        }
+
+        public event EventHandler Placed;
+    }
+}
+`;
+    const offset = classText.indexOf("PlaceOrder");
+    const result = generateInterfaceCode(classText, "IOrderService", "OrderService", { offset });
+
+    assert.ok(result.interfaceCode.includes("void PlaceOrder();"));
+    assert.ok(result.interfaceCode.includes("event EventHandler Placed;"));
+    assert.ok(!result.interfaceCode.includes("HelperMethod"));
+    assert.ok(!result.interfaceCode.includes("NestedMethod"));
+  });
+
+  test("Extract Interface - Nested Class Under Cursor", () => {
+    const classText = `
+public class Outer
+{
+    public void OuterMethod() { }
+
+    public class Inner
+    {
+        public void InnerMethod() { }
+    }
+}
+`;
+    const offset = classText.indexOf("class Inner");
+    const result = generateInterfaceCode(classText, "IInner", "Inner", { offset });
+
+    assert.ok(result.interfaceCode.includes("void InnerMethod();"));
+    assert.ok(!result.interfaceCode.includes("OuterMethod"));
+  });
+
+  test("Extract Interface - Class Name Differs From File Name", () => {
+    const classText = `
+public class Helper
+{
+    public void Help() { }
+}
+
+public class OrderService
+{
+    public void PlaceOrder() { }
+}
+`;
+    const result = generateInterfaceCode(classText, "IOrderService", "OrderService");
+
+    assert.ok(result.interfaceCode.includes("void PlaceOrder();"));
+    assert.ok(!result.interfaceCode.includes("Help"));
+  });
+
+  test("Extract Interface - Missing Class Declaration", () => {
+    const classText = "public class Helper { }";
+    assert.throws(
+      () => generateInterfaceCode(classText, "IServices", "Services"),
+      /Could not find the declaration of type 'Services'/
+    );
+  });
+
+  test("Extract Interface - Generic Class With Constraints", () => {
+    const classText = `
+public class Repository<T> where T : class, IEntity
+{
+    public T Get(int id) { return null; }
+    public void Add(T entity) { }
+}
+`;
+    const result = generateInterfaceCode(classText, "IRepository", "Repository");
+
+    assert.strictEqual(result.interfaceName, "IRepository");
+    assert.strictEqual(result.interfaceReference, "IRepository<T>");
+    assert.ok(
+      result.interfaceCode.includes("public interface IRepository<T> where T : class, IEntity\n{")
+    );
+    assert.ok(result.interfaceCode.includes("T Get(int id);"));
+  });
+
+  test("Extract Interface - Safe Variance", () => {
+    const classText = `
+public class Source<TItem, TKey, TValue, TCallback>
+{
+    public IEnumerable<TItem> GetAll() { return null; }
+    public TItem First { get; }
+    public void Remove(TKey key) { }
+    public IComparer<TKey> Comparer { get; }
+    public List<TValue> Values() { return null; }
+    public void Subscribe(Action<TCallback> callback) { }
+    public bool TryGet(out TCallback value) { value = default; return false; }
+}
+`;
+    const result = generateInterfaceCode(classText, "ISource", "Source");
+
+    assert.ok(
+      result.interfaceCode.includes(
+        "public interface ISource<out TItem, in TKey, TValue, TCallback>"
+      )
+    );
+    assert.strictEqual(result.interfaceReference, "ISource<TItem, TKey, TValue, TCallback>");
+  });
+
+  test("Extract Interface - Variance follows the selected members", () => {
+    const classText = `
+public class Box<T>
+{
+    public T Value { get; }
+    public void Put(T value) { }
+}
+`;
+    const members = getExtractableMembers(classText, "Box").filter((m) => m.kind === "property");
+    const result = generateInterfaceCode(classText, "IBox", "Box", { members });
+
+    assert.ok(result.interfaceCode.includes("public interface IBox<out T>"));
+  });
+
+  test("Extract Interface - Method constraints are inputs for variance", () => {
+    const classText = `
+public class Box<T>
+{
+    public T Get() => default;
+    public void Use<U>() where U : T { }
+}
+`;
+    const result = generateInterfaceCode(classText, "IBox", "Box");
+
+    assert.ok(result.interfaceCode.includes("public interface IBox<T>"));
+    assert.ok(result.interfaceCode.includes("void Use<U>() where U : T;"));
+  });
+
+  test("Extract Interface - Struct", () => {
+    const classText = `
+public readonly struct Money
+{
+    public decimal Amount { get; }
+    public Money Add(Money other) => new Money();
+}
+`;
+    const result = generateInterfaceCode(classText, "IMoney", "Money");
+
+    assert.ok(result.interfaceCode.includes("decimal Amount { get; }"));
+    assert.ok(result.interfaceCode.includes("Money Add(Money other);"));
+  });
+
+  test("Extract Interface - Positional Records", () => {
+    const classText = `
+public record Person([property: JsonPropertyName("name")] string Name, int Age = 0)
+{
+    public string Display => Name;
+}
+
+public record struct Point(int X, int Y);
+
+public readonly record struct Size(int Width, int Height);
+`;
+    const person = generateInterfaceCode(classText, "IPerson", "Person");
+    const point = generateInterfaceCode(classText, "IPoint", "Point");
+    const size = generateInterfaceCode(classText, "ISize", "Size");
+
+    assert.ok(person.interfaceCode.includes("    string Name { get; init; }\n    int Age { get; init; }"));
+    assert.ok(person.interfaceCode.includes("string Display { get; }"));
+    assert.ok(point.interfaceCode.includes("int X { get; set; }"));
+    assert.ok(size.interfaceCode.includes("int Width { get; init; }"));
+  });
+
+  test("Extract Interface - Record Body Overrides Positional Property", () => {
+    const classText = `
+public record Person(string Name)
+{
+    public string Name { get; } = Name;
+}
+`;
+    const members = getExtractableMembers(classText, "Person");
+    assert.deepStrictEqual(members.map(generateMemberSignature), ["string Name { get; }"]);
+  });
+
+  test("Extract Interface - Documentation Comments", () => {
+    const classText = `
+public class Greeter
+{
+    /// <summary>
+    /// Greets someone.
+    /// </summary>
+    /// <param name="name">Who to greet.</param>
+    public string Greet(string name) => name;
+
+    /// <inheritdoc />
+    public void Wave() { }
+}
+`;
+    const result = generateInterfaceCode(classText, "IGreeter", "Greeter");
+
+    assert.ok(
+      result.interfaceCode.includes(`{
+    /// <summary>
+    /// Greets someone.
+    /// </summary>
+    /// <param name="name">Who to greet.</param>
+    string Greet(string name);
+    void Wave();
+}`)
+    );
+  });
+
+  test("Extract Interface - Lists members in interface order", () => {
+    const classText = `
+public class Shop
+{
+    public Shop() { }
+    public void Open() { }
+    public event EventHandler Opened;
+    public string this[int index] => "";
+    public string Name { get; private set; }
+    public int Hidden { private get; private set; }
+}
+`;
+    const members = getExtractableMembers(classText, "Shop");
+
+    assert.deepStrictEqual(
+      members.map((m) => [m.kind, generateMemberSignature(m)]),
+      [
+        ["property", "string Name { get; }"],
+        ["indexer", "string this[int index] { get; }"],
+        ["method", "void Open();"],
+        ["event", "event EventHandler Opened;"],
+      ]
+    );
+  });
+
+  test("Extract Interface - Skips Static, Object Overrides and Excluded Members", () => {
+    const classText = `
+public class Money
+{
+    public static Money Zero { get; } = new Money();
+    public static Money Parse(string text) => new Money();
+    public static Money operator +(Money a, Money b) => a;
+    public override string ToString() => "";
+    public override bool Equals(object obj) => false;
+    public override int GetHashCode() => 0;
+    [Obsolete("Use Round")]
+    public Money Truncate() => this;
+    [ExcludeFromInterface]
+    public void Debug() { }
+    public Money Round() => this;
+}
+`;
+    assert.deepStrictEqual(
+      getExtractableMembers(classText, "Money").map(generateMemberSignature),
+      ["Money Round();"]
+    );
+  });
+
+  test("Extract Interface - Static Abstract Members And Custom Attributes", () => {
+    const classText = `
+public class Money
+{
+    public static Money Zero { get; } = new Money();
+    public static Money Parse(string text) => new Money();
+    [Obsolete]
+    public Money Truncate() => this;
+    [System.Diagnostics.DebuggerHiddenAttribute]
+    public Money Round() => this;
+}
+`;
+    const members = getExtractableMembers(classText, "Money", undefined, {
+      filter: { includeStaticMembers: true, excludedAttributes: ["DebuggerHidden"] },
+    });
+    assert.deepStrictEqual(members.map(generateMemberSignature), [
+      "static abstract Money Zero { get; }",
+      "static abstract Money Parse(string text);",
+      "Money Truncate();",
+    ]);
+  });
+
+  test("Extract Interface - Only Selected Members", () => {
+    const classText = `
+public class Shop
+{
+    public int Count { get; set; }
+    public void Open() { }
+    public void Close() { }
+}
+`;
+    const members = getExtractableMembers(classText, "Shop").filter(
+      (m) => m.kind !== "method" || m.info.name !== "Close"
+    );
+    const result = generateInterfaceCode(classText, "IShop", "Shop", { members });
+
+    assert.ok(result.interfaceCode.includes("int Count { get; set; }"));
+    assert.ok(result.interfaceCode.includes("void Open();"));
+    assert.ok(!result.interfaceCode.includes("Close"));
+  });
+
+  test("Extract Interface - Partial Class Across Files", () => {
+    const classText = `using System;
+
+namespace Shop;
+
+public partial class Order
+{
+    public Guid Id { get; set; }
+
+    /// <summary>Recalculates the total.</summary>
+    public partial void Recalculate();
+}
+`;
+    const partialCode = `using System.Collections.Generic;
+
+namespace Shop;
+
+public partial class Order : IDisposable
+{
+    public IList<string> Lines { get; } = new List<string>();
+    public partial void Recalculate() { }
+    public void Dispose() { }
+}
+`;
+    const partials = [
+      { file: { path: "/src/Order.g.cs", code: partialCode }, type: findTargetType(partialCode)! },
+    ];
+
+    const members = getExtractableMembers(classText, "Order", undefined, { partials });
+    assert.deepStrictEqual(
+      members.map((m) => [generateMemberSignature(m), m.file]),
+      [
+        ["Guid Id { get; set; }", undefined],
+        ["IList<string> Lines { get; }", "/src/Order.g.cs"],
+        ["void Recalculate();", undefined],
+        ["void Dispose();", "/src/Order.g.cs"],
+      ]
+    );
+
+    const result = generateInterfaceCode(classText, "IOrder", "Order", { partials });
+    assert.strictEqual(
+      result.interfaceCode,
+      `using System;
+using System.Collections.Generic;
+
+namespace Shop;
+
+public interface IOrder
+{
+    Guid Id { get; set; }
+    IList<string> Lines { get; }
+    /// <summary>Recalculates the total.</summary>
+    void Recalculate();
+    void Dispose();
+}
+`
+    );
+  });
+
+  test("Update Class - Interface Listed On Another Partial Declaration", () => {
+    const classText = "public partial class Order { }";
+    const partialCode = "public partial class Order : IOrder { }";
+    const partials = [{ file: { path: "Order.g.cs", code: partialCode }, type: findTargetType(partialCode)! }];
+
+    assert.strictEqual(getImplementInterfaceChange(classText, "Order", "IOrder", partials), null);
+    assert.ok(getImplementInterfaceChange(classText, "Order", "IOther", partials));
+  });
+
+  test("Extract Interface - Inherited Members", () => {
+    const classText = `namespace App;
+
+public class OrderService : ServiceBase<Order>
+{
+    public override void Initialize() { }
+    public void Ship(Order order) { }
+}
 `;
-    const result = generateInterfaceCode(classText, "IMyClass", "MyClass.cs");
-    assert.ok(!result.interfaceCode.includes("MyProp"));
+    const baseCode = `using System.Collections.Generic;
+
+namespace App;
+
+public abstract class ServiceBase<T>
+{
+    public string Name { get; }
+    public virtual void Initialize() { }
+    public IList<T> Load() => null;
+    protected void Log(string message) { }
+}
+`;
+    const baseClasses = [
+      {
+        file: { path: "/src/ServiceBase.cs", code: baseCode },
+        type: findTargetType(baseCode)!,
+        typeArguments: new Map([["T", "Order"]]),
+      },
+    ];
+
+    const members = getExtractableMembers(classText, "OrderService", undefined, { baseClasses });
+    assert.deepStrictEqual(
+      members.map((m) => [generateMemberSignature(m), m.inheritedFrom]),
+      [
+        ["string Name { get; }", "ServiceBase"],
+        ["void Initialize();", undefined],
+        ["void Ship(Order order);", undefined],
+        ["IList<Order> Load();", "ServiceBase"],
+      ]
+    );
+
+    const result = generateInterfaceCode(classText, "IOrderService", "OrderService", { baseClasses });
+    assert.ok(result.interfaceCode.startsWith("using System.Collections.Generic;\n"));
+  });
+
+  test("Update Class - Second Class In File", () => {
+    const classText = `public class First { }
+public class Second { }`;
+    const updated = updateClassToImplementInterface(classText, "Second", "ISecond");
+    assert.strictEqual(
+      updated,
+      `public class First { }
+public class Second : ISecond { }`
+    );
   });
 
   test("Update Class - Normal Class", () => {
@@ -106,6 +607,85 @@ namespace MyNamespace
     );
   });
 
+  test("Update Class - Same-named nested types", () => {
+    const classText = `public class A
+{
+    public class Builder { }
+}
+public class B
+{
+    public class Builder
+    {
+        public void Make() { }
+    }
+}`;
+    const offset = classText.indexOf("Make");
+    const change = getImplementInterfaceChange(classText, "Builder", "IBuilder", [], offset);
+    assert.strictEqual(
+      applyTextChanges(classText, [change!]),
+      classText.replace("public class Builder\n", "public class Builder : IBuilder\n")
+    );
+  });
+
+  test("Update Class - Change touches only the declaration", () => {
+    const classText = `public class MyClass : BaseClass
+{
+    public void Method1() { }
+}`;
+    const change = getImplementInterfaceChange(classText, "MyClass", "IMyClass");
+    assert.deepStrictEqual(change, {
+      start: classText.indexOf("BaseClass") + "BaseClass".length,
+      end: classText.indexOf("BaseClass") + "BaseClass".length,
+      newText: ", IMyClass",
+    });
+  });
+
+  test("Update Class - Ignores class names in comments", () => {
+    const classText = `// public class MyClass : Old
+public class MyClass { }`;
+    const updated = updateClassToImplementInterface(classText, "MyClass", "IMyClass");
+    assert.strictEqual(
+      updated,
+      `// public class MyClass : Old
+public class MyClass : IMyClass { }`
+    );
+  });
+
+  test("Update Class - Missing Class Declaration", () => {
+    assert.throws(
+      () => updateClassToImplementInterface("public class Helper { }", "Services", "IServices"),
+      /Could not find the declaration of type 'Services'/
+    );
+  });
+
+  test("Update Class - Generic Class With Constraints", () => {
+    const classText = "public class Repository<T> where T : class, IEntity { }";
+    const updated = updateClassToImplementInterface(classText, "Repository", "IRepository<T>");
+    assert.strictEqual(
+      updated,
+      "public class Repository<T> : IRepository<T> where T : class, IEntity { }"
+    );
+  });
+
+  test("Update Class - Structs and Records", () => {
+    assert.strictEqual(
+      updateClassToImplementInterface("public struct Money { }", "Money", "IMoney"),
+      "public struct Money : IMoney { }"
+    );
+    assert.strictEqual(
+      updateClassToImplementInterface("public record Person(string Name);", "Person", "IPerson"),
+      "public record Person(string Name) : IPerson;"
+    );
+    assert.strictEqual(
+      updateClassToImplementInterface(
+        "public record class Person(string Name) : Base(Name);",
+        "Person",
+        "IPerson"
+      ),
+      "public record class Person(string Name) : Base(Name), IPerson;"
+    );
+  });
+
   test("Update Class - Prevent Duplicates", () => {
     const classText = "public class MyClass : IMyClass { }";
     const updated = updateClassToImplementInterface(
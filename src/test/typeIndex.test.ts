@@ -0,0 +1,195 @@
+import * as assert from "assert";
+import {
+  createTypeIndex,
+  indexFile,
+  removeIndexedFile,
+  getGlobalUsingDirectives,
+  findTypesByFullName,
+  getIndexedNamespaces,
+  getTypeNamespaces,
+  resolveTypeReference,
+  getPartialDeclarations,
+  getBaseClassChain,
+  getInheritedInterfaces,
+} from "../logic/typeIndex";
+import { parseCSharp, getAllTypes } from "../logic/csharpSyntax";
+
+suite("Type Index Tests", () => {
+  const modelsFile = {
+    path: "/src/Models.cs",
+    code: `namespace App.Models
+{
+    public interface IRepository<T> { }
+    public class Order
+    {
+        public class Line { }
+    }
+}`,
+  };
+  const otherFile = {
+    path: "/src/Other.cs",
+    code: "namespace App.Other;\npublic interface IRepository<T> { }\npublic class Order { }",
+  };
+
+  suite("indexing", () => {
+    test("Indexes namespaces and types by fully qualified name", () => {
+      const index = createTypeIndex([modelsFile, otherFile]);
+
+      assert.deepStrictEqual(getIndexedNamespaces(index).sort(), ["App.Models", "App.Other"]);
+      assert.strictEqual(findTypesByFullName(index, "App.Models.Order.Line").length, 1);
+      assert.strictEqual(findTypesByFullName(index, "App.Models.IRepository", 1)[0].type.kind, "interface");
+      assert.deepStrictEqual(getTypeNamespaces(index, "Order")?.sort(), ["App.Models", "App.Other"]);
+      assert.strictEqual(getTypeNamespaces(index, "Missing"), undefined);
+    });
+
+    test("Replaces and removes files", () => {
+      const index = createTypeIndex([modelsFile]);
+      indexFile(index, { path: modelsFile.path, code: "namespace App.Models { public class Customer { } }" });
+      assert.deepStrictEqual(findTypesByFullName(index, "App.Models.Order"), []);
+      assert.strictEqual(findTypesByFullName(index, "App.Models.Customer").length, 1);
+
+      removeIndexedFile(index, modelsFile.path);
+      assert.deepStrictEqual(findTypesByFullName(index, "App.Models.Customer"), []);
+    });
+
+    test("Keeps the global usings of each file", () => {
+      const index = createTypeIndex([
+        { path: "/app/Usings.cs", code: "global using System.Text;\nglobal using Json = System.Text.Json;\nusing System.IO;" },
+        { path: "/lib/Usings.cs", code: "global using System.Linq;" },
+      ]);
+
+      assert.deepStrictEqual(
+        getGlobalUsingDirectives(index).map((u) => u.name),
+        ["System.Text", "System.Text.Json", "System.Linq"]
+      );
+      assert.deepStrictEqual(
+        getGlobalUsingDirectives(index, (file) => file.path.startsWith("/app/")).map((u) => u.alias),
+        [null, "Json"]
+      );
+    });
+  });
+
+  suite("resolveTypeReference", () => {
+    const index = createTypeIndex([modelsFile, otherFile]);
+    const resolve = (reference: string, code: string) =>
+      resolveTypeReference(index, reference, { file: { path: "/src/Service.cs", code } }).map((t) => t.fullName);
+
+    test("Resolves through the file's usings", () => {
+      const code = "using App.Models;\nnamespace App.Services;\npublic class Service : IRepository<Order> { }";
+      assert.deepStrictEqual(resolve("IRepository<Order>", code), ["App.Models.IRepository"]);
+      assert.deepStrictEqual(resolve("Order", code), ["App.Models.Order"]);
+    });
+
+    test("Prefers the enclosing namespace over usings", () => {
+      const code = "using App.Models;\nnamespace App.Other.Services;\npublic class Service { }";
+      assert.deepStrictEqual(resolve("Order", code), ["App.Other.Order"]);
+    });
+
+    test("Resolves qualified names and aliases", () => {
+      const code = "using M = App.Models;\nnamespace App;\npublic class Service { }";
+      assert.deepStrictEqual(resolve("Models.Order.Line", code), ["App.Models.Order.Line"]);
+      assert.deepStrictEqual(resolve("M.Order", code), ["App.Models.Order"]);
+      assert.deepStrictEqual(resolve("global::App.Other.Order", code), ["App.Other.Order"]);
+    });
+
+    test("Falls back to a unique name and gives up on ambiguous ones", () => {
+      const code = "namespace Elsewhere;\npublic class Service { }";
+      assert.deepStrictEqual(resolve("Line", code), ["App.Models.Order.Line"]);
+      assert.deepStrictEqual(resolve("Order.Line", code), ["App.Models.Order.Line"]);
+      assert.deepStrictEqual(resolve("Missing", code), []);
+      assert.deepStrictEqual(resolve("Order", code), []);
+    });
+  });
+
+  suite("getPartialDeclarations", () => {
+    test("Matches partial types by kind, fully qualified name and arity", () => {
+      const source = {
+        path: "/src/Order.cs",
+        code: "namespace App.Models { public partial class Order { } }",
+      };
+      const index = createTypeIndex([
+        source,
+        { path: "/src/Order.Generated.cs", code: "namespace App.Models;\npartial class Order { public int Id { get; set; } }" },
+        { path: "/src/Other.cs", code: "namespace App.Other { public partial class Order { } }" },
+        { path: "/src/Generic.cs", code: "namespace App.Models { public partial class Order<T> { } }" },
+        { path: "/src/Nested.cs", code: "namespace App.Models { public partial class Outer { public partial class Order { } } }" },
+        { path: "/src/Record.cs", code: "namespace App.Models { public partial record Order { } }" },
+      ]);
+      const type = getAllTypes(parseCSharp(source.code))[0];
+
+      const partials = getPartialDeclarations(index, { file: source, type });
+      assert.deepStrictEqual(partials.map((p) => p.file.path), ["/src/Order.Generated.cs"]);
+      assert.strictEqual(partials[0].type.members[0].name, "Id");
+    });
+
+    test("Finds nothing for a type that is not partial", () => {
+      const source = { path: "/src/Order.cs", code: "public class Order { }" };
+      const index = createTypeIndex([source, { path: "/src/Order.Part.cs", code: "public partial class Order { }" }]);
+      const type = getAllTypes(parseCSharp(source.code))[0];
+      assert.deepStrictEqual(getPartialDeclarations(index, { file: source, type }), []);
+    });
+  });
+
+  suite("getBaseClassChain", () => {
+    test("Walks the chain with the type arguments of each level", () => {
+      const source = {
+        path: "/src/OrderService.cs",
+        code: "using Core;\nnamespace App { public class OrderService : EntityService<Order>, IDisposable { } }",
+      };
+      const index = createTypeIndex([
+        source,
+        {
+          path: "/src/Core.cs",
+          code: `namespace Core
+{
+    public abstract class EntityService<TEntity> : ServiceBase<IList<TEntity>> { }
+    public abstract class ServiceBase<TResult> : IService { }
+    public interface IService { }
+}`,
+        },
+        { path: "/src/Other.cs", code: "namespace Other { public class EntityService<T> { } }" },
+      ]);
+      const type = getAllTypes(parseCSharp(source.code))[0];
+
+      const chain = getBaseClassChain(index, { file: source, type });
+      assert.deepStrictEqual(
+        chain.map((b) => [b.type.name, b.type.namespace, [...b.typeArguments]]),
+        [
+          ["EntityService", "Core", [["TEntity", "Order"]]],
+          ["ServiceBase", "Core", [["TResult", "IList<Order>"]]],
+        ]
+      );
+    });
+  });
+
+  suite("getInheritedInterfaces", () => {
+    test("Walks the interface hierarchy once per interface with its type arguments", () => {
+      const source = {
+        path: "/src/IOrderService.cs",
+        code: "namespace App;\npublic interface IOrderService : IService<Order>, IReader<Order>, IDisposable { }",
+      };
+      const index = createTypeIndex([
+        source,
+        {
+          path: "/src/Services.cs",
+          code: `namespace App
+{
+    public interface IService<T> : IReader<T> { void Save(T item); }
+    public interface IReader<TItem> { TItem Read(); }
+}`,
+        },
+      ]);
+      const type = getAllTypes(parseCSharp(source.code))[0];
+
+      const inherited = getInheritedInterfaces(index, [{ file: source, type }]);
+      assert.deepStrictEqual(
+        inherited.map((i) => [i.reference, i.declarations.length, [...i.typeArguments]]),
+        [
+          ["IService<Order>", 1, [["T", "Order"]]],
+          ["IReader<Order>", 1, [["TItem", "Order"]]],
+          ["IDisposable", 0, []],
+        ]
+      );
+    });
+  });
+});
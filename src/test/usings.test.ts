@@ -0,0 +1,200 @@
+import * as assert from "assert";
+import {
+  getGlobalUsings,
+  getProjectGlobalUsings,
+  getReferencedTypeNames,
+  getDocumentationReferences,
+  getAddUsingChange,
+} from "../logic/usings";
+import { applyTextChanges } from "../logic/textChanges";
+import { generateInterfaceCode } from "../logic/interfaceExtractor";
+
+suite("Usings Tests", () => {
+  suite("getReferencedTypeNames", () => {
+    test("Finds types but not member and parameter names", () => {
+      const names = getReferencedTypeNames(
+        [
+          "Task<IReadOnlyList<Order>> FindAsync<T>(Guid id, CancellationToken token = default);",
+          "(int Id, Customer Customer) Latest { get; }",
+          "event EventHandler<OrderEventArgs> Changed;",
+          "Money this[[NotNull] string key] { get; }",
+        ].join("\n")
+      );
+      assert.deepStrictEqual(
+        [...names].sort(),
+        [
+          "CancellationToken",
+          "Customer",
+          "EventHandler",
+          "Guid",
+          "IReadOnlyList",
+          "Money",
+          "NotNull",
+          "Order",
+          "OrderEventArgs",
+          "T",
+          "Task",
+        ]
+      );
+    });
+
+    test("Takes the first segment of qualified names", () => {
+      const names = getReferencedTypeNames("Models.Order Get(System.IO.Stream s, int n = Limits.Max);");
+      assert.deepStrictEqual([...names].sort(), ["Limits", "Models", "System"]);
+    });
+
+    test("Reads the types of cref attributes", () => {
+      const names = getDocumentationReferences([
+        '/// Returns <see cref="T:Models.Order"/> or throws <see cref="ArgumentException"/>.',
+        '/// <seealso cref="List{Customer}"/>',
+      ]);
+      assert.deepStrictEqual([...names].sort(), ["ArgumentException", "Customer", "List", "Models"]);
+    });
+  });
+
+  suite("global usings", () => {
+    test("Reads global using directives", () => {
+      const usings = getGlobalUsings(
+        "global using System.Text;\nglobal using Json = System.Text.Json;\nglobal using static System.Math;\nusing System.IO;"
+      );
+      assert.deepStrictEqual(usings, { namespaces: ["System.Text"], aliases: ["Json"] });
+    });
+
+    test("Reads Using items and implicit usings from a project file", () => {
+      const usings = getProjectGlobalUsings(`<Project Sdk="Microsoft.NET.Sdk.Web">
+  <PropertyGroup>
+    <ImplicitUsings>enable</ImplicitUsings>
+  </PropertyGroup>
+  <ItemGroup>
+    <Using Include="MyApp.Models" />
+    <Using Include="MyApp.Money" Alias="Money" />
+    <Using Include="System.Math" Static="true" />
+    <Using Remove="System.Net.Http" />
+  </ItemGroup>
+</Project>`);
+      assert.ok(usings.namespaces.includes("System.Threading.Tasks"));
+      assert.ok(usings.namespaces.includes("Microsoft.Extensions.Logging"));
+      assert.ok(usings.namespaces.includes("MyApp.Models"));
+      assert.ok(!usings.namespaces.includes("System.Net.Http"));
+      assert.ok(!usings.namespaces.includes("System.Math"));
+      assert.deepStrictEqual(usings.aliases, ["Money"]);
+    });
+
+    test("Adds nothing implicitly unless enabled", () => {
+      const usings = getProjectGlobalUsings(`<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <ImplicitUsings>disable</ImplicitUsings>
+  </PropertyGroup>
+</Project>`);
+      assert.deepStrictEqual(usings, { namespaces: [], aliases: [] });
+    });
+  });
+
+  suite("generateInterfaceCode", () => {
+    const classText = `using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using static System.Math;
+using Microsoft.EntityFrameworkCore;
+using MyApp.Models;
+using Money = MyApp.Finance.Money;
+using Clock = MyApp.Time.Clock;
+
+namespace MyApp.Services;
+
+public class OrderService
+{
+    public Task<IList<Order>> GetOrdersAsync(Guid customerId) { return null; }
+    public Money Total(Order order) { return default; }
+}
+`;
+    const types = new Map([["Order", ["MyApp.Models"]]]);
+
+    test("Keeps only the usings the signatures need", () => {
+      const result = generateInterfaceCode(classText, "IOrderService", "OrderService", {
+        resolveType: (name) => types.get(name),
+      });
+
+      assert.strictEqual(
+        result.interfaceCode,
+        `using System;
+using System.Collections.Generic;
+using System.Threading.Tasks;
+using MyApp.Models;
+using Money = MyApp.Finance.Money;
+
+namespace MyApp.Services;
+
+public interface IOrderService
+{
+    Task<IList<Order>> GetOrdersAsync(Guid customerId);
+    Money Total(Order order);
+}
+`
+      );
+    });
+
+    test("Leaves out usings the project has globally", () => {
+      const result = generateInterfaceCode(classText, "IOrderService", "OrderService", {
+        resolveType: (name) => types.get(name),
+        globalUsings: {
+          namespaces: ["System", "System.Collections.Generic", "System.Threading.Tasks"],
+          aliases: ["Money"],
+        },
+      });
+
+      assert.ok(result.interfaceCode.startsWith("using MyApp.Models;\n\nnamespace MyApp.Services;"));
+    });
+
+    test("Needs no using for types of the same or an enclosing namespace", () => {
+      const result = generateInterfaceCode(classText, "IOrderService", "OrderService", {
+        resolveType: (name) => (name === "Order" ? ["MyApp"] : undefined),
+        globalUsings: { namespaces: ["System", "System.Collections.Generic", "System.Threading.Tasks"], aliases: [] },
+      });
+
+      assert.ok(result.interfaceCode.startsWith("using Money = MyApp.Finance.Money;\n\nnamespace"));
+    });
+
+    test("Keeps project namespaces when a type cannot be resolved", () => {
+      const result = generateInterfaceCode(classText, "IOrderService", "OrderService");
+
+      assert.ok(result.interfaceCode.includes("using Microsoft.EntityFrameworkCore;"));
+      assert.ok(result.interfaceCode.includes("using MyApp.Models;"));
+      assert.ok(!result.interfaceCode.includes("using System.Linq;"));
+      assert.ok(!result.interfaceCode.includes("using static"));
+      assert.ok(!result.interfaceCode.includes("Clock"));
+    });
+  });
+
+  suite("getAddUsingChange", () => {
+    const addSystem = (code: string, globalNamespaces: string[] = []) => {
+      const change = getAddUsingChange(code, "System", { namespaces: globalNamespaces, aliases: [] });
+      return change ? applyTextChanges(code, [change]) : null;
+    };
+
+    test("Sorts the directive in with System namespaces first", () => {
+      assert.strictEqual(
+        addSystem("using System.Linq;\nusing MyApp.Models;\n\nnamespace MyApp;\n"),
+        "using System;\nusing System.Linq;\nusing MyApp.Models;\n\nnamespace MyApp;\n"
+      );
+      assert.strictEqual(
+        getAddUsingChange("using Acme;\nusing Zeta;\n", "MyApp.Models")?.start,
+        "using Acme;\n".length
+      );
+    });
+
+    test("Puts the first using above the namespace", () => {
+      assert.strictEqual(
+        addSystem("// Header\nnamespace MyApp;\n\npublic class Order { }\n"),
+        "// Header\nusing System;\n\nnamespace MyApp;\n\npublic class Order { }\n"
+      );
+    });
+
+    test("Adds nothing the file or project already has", () => {
+      assert.strictEqual(addSystem("namespace MyApp\n{\n    using System;\n}"), null);
+      assert.strictEqual(addSystem("namespace MyApp;", ["System"]), null);
+      assert.strictEqual(getAddUsingChange("namespace MyApp.Models;", "MyApp"), null);
+    });
+  });
+});